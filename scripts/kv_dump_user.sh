@@ -1,19 +1,10 @@
 #!/usr/bin/env bash
+# Dumps one user's documents (secrets stripped) via the admin API; see README "Admin API".
 set -euo pipefail
 
 USER_ID="${1:?usage: $0 <user_uuid>}"
+: "${API_URL:?set API_URL, e.g. https://spirit-tracker-api.<account>.workers.dev}"
+: "${ADMIN_TOKEN:?set ADMIN_TOKEN to a 15-minute access token for an ADMIN_EMAILS account; see README "Admin API"}"
 
-NS="$(npx wrangler kv namespace list | node -e '
-const fs=require("fs");
-let j=[]; try{j=JSON.parse(fs.readFileSync(0,"utf8"))}catch{}
-process.stdout.write(j[0]?.id || "");
-')"
-
-[[ -n "$NS" ]] || { echo "No KV namespace found"; exit 1; }
-
-for r in details favourites sampled score; do
-  k="acct/${USER_ID}/${r}"
-  echo "== $k"
-  npx wrangler kv key get --namespace-id "$NS" --remote --text "$k" 2>/dev/null || echo "<missing>"
-  echo
-done
+curl -fsS "${API_URL}/admin/users/${USER_ID}" -H "Authorization: Bearer ${ADMIN_TOKEN}" \
+| node -e 'const fs=require("fs"); console.log(JSON.stringify(JSON.parse(fs.readFileSync(0,"utf8")), null, 2));'
@@ -1,22 +1,23 @@
 #!/usr/bin/env bash
+# Lists users (optionally filtered by an email substring) via the admin API; see README "Admin API".
 set -euo pipefail
 
-NS="$(npx wrangler kv namespace list | node -e '
-const fs=require("fs");
-let j=[]; try{j=JSON.parse(fs.readFileSync(0,"utf8"))}catch{}
-process.stdout.write(j[0]?.id || "");
-')"
+: "${API_URL:?set API_URL, e.g. https://spirit-tracker-api.<account>.workers.dev}"
+: "${ADMIN_TOKEN:?set ADMIN_TOKEN to a 15-minute access token for an ADMIN_EMAILS account; see README "Admin API"}"
 
-[[ -n "$NS" ]] || { echo "No KV namespace found"; exit 1; }
+Q="${1:-}"
+CURSOR=""
 
-npx wrangler kv key list --namespace-id "$NS" --remote --prefix "auth/email/" \
-| node -e '
-const fs=require("fs"); let j=[]; try{j=JSON.parse(fs.readFileSync(0,"utf8"))}catch{}
-for(const it of j){ const n=(typeof it==="string")?it:it?.name; if(n) console.log(n); }
-' \
-| while read -r key; do
-  val="$(npx wrangler kv key get --namespace-id "$NS" --remote --text "$key" 2>/dev/null || true)"
-  email="${key#auth/email/}"
-  userId="$(node -e 'let j=null;try{j=JSON.parse(process.argv[1]||"")}catch{};process.stdout.write(j?.userId||"")' "$val")"
-  echo -e "${email}\t${userId}"
+while :; do
+  page="$(curl -fsS -G "${API_URL}/admin/users" \
+    -H "Authorization: Bearer ${ADMIN_TOKEN}" \
+    --data-urlencode "q=${Q}" --data-urlencode "limit=200" --data-urlencode "cursor=${CURSOR}")"
+
+  node -e '
+const j=JSON.parse(process.argv[1]);
+for (const u of j.users) console.log(`${u.email}\t${u.userId}${u.suspended ? "\tsuspended" : ""}`);
+' "$page"
+
+  CURSOR="$(node -e 'process.stdout.write(JSON.parse(process.argv[1]).cursor || "")' "$page")"
+  [[ -n "$CURSOR" ]] || break
 done
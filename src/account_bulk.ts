@@ -0,0 +1,128 @@
+import { RESOURCES, type Resource } from './constants';
+import type { Env } from './types';
+import { errorJson, json, type JsonValue } from './http';
+import { etagFor, matchesIfNoneMatch, notModified } from './etag';
+import { bearerToken, requireAuthScopes } from './auth';
+import { accountStore, type AccountOp } from './account_store';
+import { defaultValue, getAccountResource } from './storage';
+import { readJson, validateBoolMap, validateDetails, validateScorePatch } from './validate';
+
+// Several account resources in one round trip: GET /u/:uuid (snapshot) and POST /u/:uuid/batch.
+// Same rules as the per-resource routes: details only for the owner, the rest for the owner or
+// anyone when details.public is set; personal access tokens need the scope of every resource touched.
+
+function parseInclude(raw: string | null): Resource[] | null {
+  if (raw === null) return null;
+  const out: Resource[] = [];
+  for (const name of raw.split(',').map((s) => s.trim()).filter(Boolean)) {
+    if (!RESOURCES.includes(name as Resource)) throw new Error(`Invalid include: ${name}`);
+    if (!out.includes(name as Resource)) out.push(name as Resource);
+  }
+  if (!out.length) throw new Error('Invalid include');
+  return out;
+}
+
+/**
+ * GET /u/:uuid?include=favourites,score → { resources, etags }. The ETag header covers the
+ * whole snapshot; `etags` holds the per-resource tags for If-Match on later writes.
+ * Public viewers (and other signed-in users) get everything except details. On a public account
+ * a bad or expired token falls back to anonymous access, like the per-resource GET.
+ * Without `include`, a personal access token gets the resources its read scopes cover.
+ */
+export async function handleAccountSnapshot(req: Request, env: Env, userId: string): Promise<Response> {
+  const requested = parseInclude(new URL(req.url).searchParams.get('include'));
+
+  // Details are read once: they decide visibility and are part of the owner's snapshot.
+  const details = ((await getAccountResource(env, userId, 'details')) ?? defaultValue('details')) as any;
+  const isPublic = typeof details?.public === 'boolean' ? details.public : false;
+
+  let viewer: { sub: string; scopes: readonly string[] | null } | null = null;
+  if (bearerToken(req)) {
+    try {
+      viewer = await requireAuthScopes(req, env);
+    } catch (e) {
+      if (!isPublic) throw e;
+    }
+  } else if (!isPublic) {
+    throw new Error('Missing bearer token');
+  }
+
+  const owner = viewer?.sub === userId;
+  if (!owner && !isPublic) return errorJson(req, 403, 'Forbidden');
+
+  let include = (requested ?? [...RESOURCES]).filter((r) => owner || r !== 'details');
+  const scopes = owner ? viewer!.scopes : null;
+  if (scopes) {
+    const readable = include.filter((r) => scopes.includes(`read:${r}`));
+    const missing = include.find((r) => !readable.includes(r));
+    if (missing && (requested || !readable.length)) throw new Error(`Token lacks scope read:${missing}`);
+    include = readable;
+  }
+
+  const values = await Promise.all(
+    include.map(async (r) => (r === 'details' ? details : (await getAccountResource(env, userId, r)) ?? defaultValue(r)))
+  );
+  const tags = await Promise.all(values.map((v) => etagFor(v)));
+
+  // Built in `include` order so identical data always yields the same body and ETag.
+  const resources: Partial<Record<Resource, JsonValue>> = {};
+  const etags: Partial<Record<Resource, string>> = {};
+  include.forEach((r, i) => {
+    resources[r] = values[i] as JsonValue;
+    etags[r] = tags[i];
+  });
+
+  const etag = await etagFor(include.map((r, i) => [r, tags[i]]));
+  if (matchesIfNoneMatch(req, etag)) return notModified(req, etag);
+  return json(req, 200, { resources, etags } as { [k: string]: JsonValue }, { ETag: etag });
+}
+
+/** Validates the whole batch before anything is written; one bad resource rejects all of it. */
+function batchOps(body: any): Array<{ resource: Resource; op: AccountOp }> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) throw new Error('batch must be an object');
+
+  const ops: Array<{ resource: Resource; op: AccountOp }> = [];
+  for (const [name, patch] of Object.entries(body)) {
+    switch (name) {
+      case 'details':
+        ops.push({ resource: 'details', op: { kind: 'put', value: validateDetails(patch) } });
+        break;
+      case 'favourites':
+      case 'sampled':
+        ops.push({ resource: name, op: { kind: 'toggle', patch: validateBoolMap(patch, name) } });
+        break;
+      case 'score':
+        ops.push({ resource: 'score', op: { kind: 'score', patch: validateScorePatch(patch) } });
+        break;
+      default:
+        throw new Error(`Invalid batch resource: ${name}`);
+    }
+  }
+  if (!ops.length) throw new Error('batch must name at least one resource');
+  return ops;
+}
+
+/**
+ * POST /u/:uuid/batch → { details?: <PUT body>, favourites?: { sku: bool }, sampled?: { sku: bool },
+ * score?: { key: number|null } } → { ok, etags }. Patches merge like POST /u/:uuid/:resource;
+ * details replace like PUT. Validate-all, then last-writer-wins: the writes go through one resource
+ * at a time with no If-Match, so a concurrent write to one resource can land between two of them.
+ */
+export async function handleAccountBatch(req: Request, env: Env, userId: string): Promise<Response> {
+  // Authenticate before reading the body, as import does; scopes are checked once the resources are known.
+  const { sub, scopes } = await requireAuthScopes(req, env);
+  if (sub !== userId) return errorJson(req, 403, 'Forbidden');
+
+  const ops = batchOps(await readJson<any>(req));
+  const missing = scopes && ops.find((o) => !scopes.includes(`write:${o.resource}`));
+  if (missing) throw new Error(`Token lacks scope write:${missing.resource}`);
+
+  const store = accountStore(env);
+  const etags: Partial<Record<Resource, string>> = {};
+  for (const { resource, op } of ops) {
+    const result = await store.write({ userId, resource, op });
+    etags[resource] = result.etag;
+  }
+
+  return json(req, 200, { ok: true, etags } as { [k: string]: JsonValue });
+}
@@ -0,0 +1,40 @@
+import type { Env } from './types';
+import { performWrite, serialQueue, type AccountWriteRequest } from './account_store';
+import { getAccountResource, putAccountResource } from './storage';
+
+/**
+ * One instance per account (idFromName(userId)). Its storage holds the authoritative copy of
+ * each resource it has written; the first write loads from KV. Every write goes through the
+ * queue (KV calls would otherwise let requests interleave) and is written through to KV.
+ */
+export class AccountDurableObject {
+  private readonly queue = serialQueue();
+
+  constructor(private readonly state: DurableObjectState, private readonly env: Env) {}
+
+  async fetch(req: Request): Promise<Response> {
+    const path = new URL(req.url).pathname;
+    if (req.method !== 'POST') return new Response('Method not allowed', { status: 405 });
+
+    if (path === '/write') {
+      const w = await req.json<AccountWriteRequest>();
+      const result = await this.queue('write', async () => {
+        let current = await this.state.storage.get(w.resource);
+        if (current === undefined) current = await getAccountResource(this.env, w.userId, w.resource);
+
+        return performWrite(w, current, async (value) => {
+          await this.state.storage.put(w.resource, value);
+          await putAccountResource(this.env, w.userId, w.resource, value);
+        });
+      });
+      return Response.json(result);
+    }
+
+    if (path === '/clear') {
+      await this.queue('write', () => this.state.storage.deleteAll());
+      return Response.json({ ok: true });
+    }
+
+    return new Response('Not found', { status: 404 });
+  }
+}
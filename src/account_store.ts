@@ -0,0 +1,159 @@
+import type { Resource } from './constants';
+import type { Env } from './types';
+import type { JsonValue } from './http';
+import { etagFor, ifMatchFails } from './etag';
+import { defaultValue, getAccountResource, putAccountResource } from './storage';
+
+// Writes to acct/<uuid>/<resource> go through one serialized writer per account, so
+// read-merge-write patches from several devices can't undo each other on a stale KV read.
+// With the ACCOUNT_DO binding that writer is a Durable Object (account_do.ts) holding the
+// authoritative copy and writing through to KV; without it (local dev, tests) a per-isolate
+// queue with the same interface stands in. Reads keep coming from KV.
+
+export type AccountOp =
+  | { kind: 'put'; value: unknown }                             // replace the document
+  | { kind: 'toggle'; patch: Record<string, boolean> }          // favourites / sampled
+  | { kind: 'score'; patch: Record<string, number | null> }     // score; null removes a key
+  | { kind: 'assign'; fields: Record<string, unknown> };        // shallow merge into details
+
+export type AccountWriteRequest = {
+  userId: string;
+  resource: Resource;
+  op: AccountOp;
+  ifMatch?: string | null; // raw If-Match header
+};
+
+export type AccountWriteResult =
+  | { ok: true; value: JsonValue; etag: string }
+  | { ok: false; current: JsonValue; etag: string }; // If-Match failed
+
+export interface AccountStore {
+  write(req: AccountWriteRequest): Promise<AccountWriteResult>;
+  /** Forget everything held for the account (its KV keys are deleted by the purge). */
+  clear(userId: string): Promise<void>;
+}
+
+function mergeBoolMapIntoStringArray(existing: unknown, patch: Record<string, boolean>): string[] {
+  const cur = Array.isArray(existing) ? existing.filter((x) => typeof x === 'string') : [];
+  const set = new Set(cur);
+
+  for (const [k, v] of Object.entries(patch)) {
+    if (v) set.add(k);
+    else set.delete(k);
+  }
+
+  return Array.from(set);
+}
+
+function mergeScore(existing: unknown, patch: Record<string, number | null>): Record<string, number> {
+  const cur: Record<string, number> = {};
+
+  if (existing && typeof existing === 'object' && !Array.isArray(existing)) {
+    for (const [k, v] of Object.entries(existing as Record<string, unknown>)) {
+      if (typeof k !== 'string' || k.length > 256) continue;
+      if (typeof v === 'number' && Number.isFinite(v)) cur[k] = v;
+    }
+  }
+
+  for (const [k, v] of Object.entries(patch)) {
+    if (v === null) delete cur[k];
+    else cur[k] = v;
+  }
+
+  return cur;
+}
+
+export function applyOp(current: unknown, op: AccountOp): unknown {
+  switch (op.kind) {
+    case 'put':
+      return op.value;
+    case 'toggle':
+      return mergeBoolMapIntoStringArray(current, op.patch);
+    case 'score':
+      return mergeScore(current, op.patch);
+    case 'assign': {
+      const base = current && typeof current === 'object' && !Array.isArray(current) ? current : {};
+      return { ...base, ...op.fields };
+    }
+  }
+}
+
+/**
+ * One write against `current` (the document as the writer knows it). `save` persists the result.
+ * Shared by the Durable Object and the local stand-in so both behave identically.
+ */
+export async function performWrite(
+  req: AccountWriteRequest,
+  current: unknown,
+  save: (value: unknown) => Promise<void>
+): Promise<AccountWriteResult> {
+  const before = current ?? defaultValue(req.resource);
+  const etag = await etagFor(before);
+  if (ifMatchFails(req.ifMatch ?? null, etag)) return { ok: false, current: before as JsonValue, etag };
+
+  const value = applyOp(before, req.op);
+  await save(value);
+  return { ok: true, value: value as JsonValue, etag: await etagFor(value) };
+}
+
+/** Per-key promise chain: each task starts after the previous one for the same key settles. */
+export function serialQueue(): <T>(key: string, task: () => Promise<T>) => Promise<T> {
+  const tails = new Map<string, Promise<unknown>>();
+  return <T>(key: string, task: () => Promise<T>): Promise<T> => {
+    const prev = tails.get(key) ?? Promise.resolve();
+    const run = prev.then(task, task);
+    const tail = run.catch(() => undefined);
+    tails.set(key, tail);
+    void tail.then(() => {
+      if (tails.get(key) === tail) tails.delete(key);
+    });
+    return run;
+  };
+}
+
+// ---- Local stand-in ----
+// Serializes within one isolate only; good enough for `wrangler dev` and tests.
+
+const localQueue = serialQueue();
+
+function localStore(env: Env): AccountStore {
+  return {
+    write(req) {
+      return localQueue(req.userId, async () => {
+        const current = await getAccountResource(env, req.userId, req.resource);
+        return performWrite(req, current, (value) => putAccountResource(env, req.userId, req.resource, value));
+      });
+    },
+    async clear() {
+      // nothing is held outside KV
+    }
+  };
+}
+
+// ---- Durable Object client ----
+
+function durableStore(ns: DurableObjectNamespace): AccountStore {
+  async function call(userId: string, path: string, body: unknown): Promise<Response> {
+    const stub = ns.get(ns.idFromName(userId));
+    const res = await stub.fetch(`https://account${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    if (!res.ok) throw new Error(`Account store error (${res.status}): ${await res.text()}`);
+    return res;
+  }
+
+  return {
+    async write(req) {
+      return (await call(req.userId, '/write', req)).json<AccountWriteResult>();
+    },
+    async clear(userId) {
+      await call(userId, '/clear', { userId });
+    }
+  };
+}
+
+export function accountStore(env: Env): AccountStore {
+  return env.ACCOUNT_DO ? durableStore(env.ACCOUNT_DO) : localStore(env);
+}
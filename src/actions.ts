@@ -0,0 +1,76 @@
+import type { Env } from './types';
+import { getKeyring, signJwt, type JwtPayload } from './jwt';
+
+// --- One-time action tokens (emailed links) ---
+// The JWT carries the claims; a KV entry keyed by `jti` makes it single-use.
+// Each entry is also indexed under its user (same TTL) so a purge can find them by prefix.
+
+export type ActionType = 'email_verify' | 'pw_reset' | 'email_change' | 'delete_cancel' | 'mfa_pending' | 'magic_login' | 'oauth_link';
+
+function actionKey(typ: ActionType, jti: string): string {
+  return `auth/action/${typ}/${jti}`;
+}
+
+function actionUserPrefix(userId: string): string {
+  return `auth/action-user/${userId}/`;
+}
+
+function actionUserKey(userId: string, typ: ActionType, jti: string): string {
+  return `${actionUserPrefix(userId)}${typ}/${jti}`;
+}
+
+async function putAction(env: Env, typ: ActionType, jti: string, userId: string, ttlSeconds: number): Promise<void> {
+  await env.AUTH_KV.put(actionKey(typ, jti), userId, { expirationTtl: ttlSeconds });
+  await env.AUTH_KV.put(actionUserKey(userId, typ, jti), '1', { expirationTtl: ttlSeconds });
+}
+
+/** Check a one-time action without consuming it (for flows that allow retries, e.g. a mistyped code). */
+export async function peekAction(env: Env, typ: ActionType, jti: string): Promise<string | null> {
+  return env.AUTH_KV.get(actionKey(typ, jti));
+}
+
+export async function takeAction(env: Env, typ: ActionType, jti: string): Promise<string | null> {
+  const k = actionKey(typ, jti);
+  const v = await env.AUTH_KV.get(k);
+  if (!v) return null;
+  await env.AUTH_KV.delete(k);
+  await env.AUTH_KV.delete(actionUserKey(v, typ, jti));
+  return v;
+}
+
+/**
+ * Drop every outstanding action token of one user (account purge). Tokens issued before the
+ * per-user index existed aren't found here; they expire on their TTL, and every taker re-checks
+ * that the account still exists.
+ */
+export async function deleteActionTokensFor(env: Env, userId: string): Promise<void> {
+  const prefix = actionUserPrefix(userId);
+  let cursor: string | undefined = undefined;
+  do {
+    const res: KVNamespaceListResult<unknown, string> = await env.AUTH_KV.list({ prefix, cursor, limit: 1000 });
+    cursor = res.list_complete ? undefined : res.cursor;
+
+    for (const k of res.keys) {
+      const [typ, jti] = k.name.slice(prefix.length).split('/');
+      if (typ && jti) await env.AUTH_KV.delete(actionKey(typ as ActionType, jti));
+      await env.AUTH_KV.delete(k.name);
+    }
+  } while (cursor);
+}
+
+export async function issueActionToken(
+  env: Env,
+  typ: ActionType,
+  userId: string,
+  email: string,
+  ttlSeconds: number,
+  extra?: { returnTo?: string; bind?: string }
+): Promise<string> {
+  const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const jti = crypto.randomUUID();
+  await putAction(env, typ, jti, userId, ttlSeconds);
+  const payload: JwtPayload = { sub: userId, exp, iss: env.JWT_ISS, aud: env.JWT_AUD, typ, jti, email };
+  if (extra?.returnTo) payload.returnTo = extra.returnTo;
+  if (extra?.bind) payload.bind = extra.bind;
+  return signJwt(payload, await getKeyring(env));
+}
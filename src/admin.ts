@@ -0,0 +1,277 @@
+import { EMAIL_VERIFY_TTL_SECONDS } from './constants';
+import type { AdminAuditEntry, EmailIndex, Env } from './types';
+import { errorJson, json, type JsonValue } from './http';
+import { requireAuth, type AuthContext } from './auth';
+import { issueActionToken } from './actions';
+import { mfaEnabled } from './mfa';
+import { markVerifiedIfNeeded } from './oauth';
+import { purgeAccount } from './deletion';
+import { revokeAllSessions } from './sessions';
+import { clientIp } from './ratelimit';
+import {
+  getAccountIndex,
+  getAccountResource,
+  getDetails,
+  getMfa,
+  keys,
+  kvGetJson,
+  listIdentities,
+  listPasskeys,
+  listSessions,
+  putEmailIndex
+} from './storage';
+import { normalizeEmail, readJson } from './validate';
+import { sendMailSmtp } from './smtp';
+
+// Support/maintenance API (replaces the old scripts/kv_*.sh wrangler scans).
+// Callers are signed-in users whose verified email is listed in ADMIN_EMAILS.
+// Every mutation is appended to the audit trail before the response goes out.
+
+const DEFAULT_PAGE = 50;
+const MAX_PAGE = 200;
+const MAX_REASON = 500;
+
+// Audit keys sort newest-first: KV lists ascending, so the timestamp part counts down.
+const AUDIT_EPOCH_END = 9_999_999_999_999;
+
+export type AdminAction = 'verify' | 'resend_verification' | 'suspend' | 'unsuspend' | 'delete';
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function adminEmails(env: Env): Set<string> {
+  return new Set(
+    String(env.ADMIN_EMAILS ?? '')
+      .split(',')
+      .map((s) => normalizeEmail(s))
+      .filter(Boolean)
+  );
+}
+
+/** Resolves the caller, or a 403 response when they aren't an admin. */
+async function requireAdmin(req: Request, env: Env): Promise<AuthContext | Response> {
+  const auth = await requireAuth(req, env);
+  const account = auth.account;
+  if (!account || account.idx.verified === false || !adminEmails(env).has(account.email)) {
+    return errorJson(req, 403, 'Forbidden');
+  }
+  return auth;
+}
+
+async function writeAudit(
+  env: Env,
+  req: Request,
+  admin: AuthContext,
+  action: AdminAction,
+  target: { userId: string; email: string },
+  detail?: string
+): Promise<void> {
+  const now = Date.now();
+  const entry: AdminAuditEntry = {
+    id: crypto.randomUUID(),
+    at: new Date(now).toISOString(),
+    adminId: admin.sub,
+    adminEmail: admin.account?.email ?? '',
+    action,
+    targetUserId: target.userId,
+    targetEmail: target.email,
+    ip: clientIp(req)
+  };
+  if (detail) entry.detail = detail;
+
+  const sortKey = String(AUDIT_EPOCH_END - now).padStart(13, '0');
+  await env.AUTH_KV.put(keys.adminAudit(`${sortKey}-${entry.id}`), JSON.stringify(entry));
+}
+
+function pageLimit(url: URL): number | null {
+  const raw = url.searchParams.get('limit');
+  const n = raw === null ? DEFAULT_PAGE : Number(raw);
+  return Number.isInteger(n) && n >= 1 && n <= MAX_PAGE ? n : null;
+}
+
+function userSummary(email: string, idx: EmailIndex): { [k: string]: JsonValue } {
+  return {
+    email,
+    userId: idx.userId,
+    createdAt: idx.createdAt ?? null,
+    verified: idx.verified !== false,
+    suspended: idx.suspended ?? null,
+    pendingDeletion: idx.deletion ?? null
+  };
+}
+
+/**
+ * Our cursor is "<offset>:<KV cursor>": the KV page to list again and how many of its keys were
+ * already handled, so a search can stop mid-page (KV has no start-after) and resume there.
+ */
+function parseUserCursor(raw: string | null): { kv: string | undefined; skip: number } | null {
+  if (!raw) return { kv: undefined, skip: 0 };
+  const m = raw.match(/^(\d{1,4}):(.*)$/);
+  return m ? { kv: m[2] || undefined, skip: Number(m[1]) } : null;
+}
+
+/** GET /admin/users?q=<email substring>&limit=&cursor= */
+export async function handleAdminUserList(req: Request, env: Env): Promise<Response> {
+  const admin = await requireAdmin(req, env);
+  if (admin instanceof Response) return admin;
+
+  const url = new URL(req.url);
+  const limit = pageLimit(url);
+  if (limit === null) return errorJson(req, 400, `Invalid limit (1-${MAX_PAGE})`);
+  const q = (url.searchParams.get('q') || '').trim().toLowerCase();
+  const start = parseUserCursor(url.searchParams.get('cursor'));
+  if (!start) return errorJson(req, 400, 'Invalid cursor');
+
+  // Searching filters on the key name, so scan whole KV pages; stop at `limit` users (and reads),
+  // even mid-page, and hand back a cursor that picks up at the next key.
+  const users: Array<{ [k: string]: JsonValue }> = [];
+  const prefix = keys.emailIndex('');
+  let kvCursor = start.kv;
+  let skip = start.skip;
+  let next: string | null = null;
+  for (;;) {
+    const res: KVNamespaceListResult<unknown, string> = await env.AUTH_KV.list({ prefix, cursor: kvCursor, limit: q ? 1000 : limit });
+    const after = res.list_complete ? undefined : res.cursor;
+
+    for (let i = skip; i < res.keys.length; i++) {
+      if (users.length === limit) {
+        next = `${i}:${kvCursor ?? ''}`;
+        break;
+      }
+      const email = res.keys[i].name.slice(prefix.length);
+      if (q && !email.includes(q)) continue;
+      const idx = await kvGetJson<EmailIndex>(env.AUTH_KV, res.keys[i].name);
+      if (idx?.userId) users.push(userSummary(email, idx));
+    }
+    if (next !== null || !after) break;
+    if (users.length === limit) {
+      next = `0:${after}`;
+      break;
+    }
+    kvCursor = after;
+    skip = 0;
+  }
+
+  return json(req, 200, { users, cursor: next });
+}
+
+/** GET /admin/users/:uuid: every document for the account, minus secrets (hashes, TOTP seed, keys). */
+export async function handleAdminUserGet(req: Request, env: Env, userId: string): Promise<Response> {
+  const admin = await requireAdmin(req, env);
+  if (admin instanceof Response) return admin;
+
+  const account = await getAccountIndex(env, userId);
+  if (!account) return errorJson(req, 404, 'User not found');
+  const { email, idx } = account;
+
+  const [details, favourites, sampled, score, identities, passkeys, sessions, mfa] = await Promise.all([
+    getDetails(env, userId),
+    getAccountResource(env, userId, 'favourites'),
+    getAccountResource(env, userId, 'sampled'),
+    getAccountResource(env, userId, 'score'),
+    listIdentities(env, userId),
+    listPasskeys(env, userId),
+    listSessions(env, userId),
+    getMfa(env, userId)
+  ]);
+
+  const { pwHash, ...index } = idx;
+
+  return json(req, 200, {
+    ...userSummary(email, idx),
+    index: { ...index, hasPassword: !!pwHash } as { [k: string]: JsonValue },
+    resources: { details, favourites, sampled, score } as { [k: string]: JsonValue },
+    identities: identities.map((i) => ({ provider: i.provider, email: i.email, linkedAt: i.linkedAt })),
+    passkeys: passkeys.map((p) => ({ id: p.id, name: p.name, createdAt: p.createdAt, lastUsedAt: p.lastUsedAt ?? null })),
+    sessions: sessions.map((s) => ({ id: s.id, userAgent: s.userAgent, createdAt: s.createdAt, lastUsedAt: s.lastUsedAt })),
+    mfa: { totp: mfaEnabled(mfa), recoveryCodesLeft: mfa?.recoveryHashes.length ?? 0 }
+  });
+}
+
+/** POST /admin/users/:uuid/:action and DELETE /admin/users/:uuid */
+export async function handleAdminUserAction(req: Request, env: Env, userId: string, action: AdminAction): Promise<Response> {
+  const admin = await requireAdmin(req, env);
+  if (admin instanceof Response) return admin;
+
+  const account = await getAccountIndex(env, userId);
+  if (!account) return errorJson(req, 404, 'User not found');
+  const { email, idx } = account;
+
+  switch (action) {
+    case 'verify': {
+      await markVerifiedIfNeeded(env, email, idx);
+      await writeAudit(env, req, admin, action, { userId, email });
+      return json(req, 200, { ok: true });
+    }
+
+    case 'resend_verification': {
+      if (idx.verified !== false) return errorJson(req, 409, 'Email already verified');
+
+      const token = await issueActionToken(env, 'email_verify', userId, email, EMAIL_VERIFY_TTL_SECONDS);
+      const verifyUrl = new URL('/verify-email', new URL(req.url).origin);
+      verifyUrl.searchParams.set('token', token);
+
+      await sendMailSmtp(env, {
+        to: email,
+        subject: 'Verify your email',
+        text:
+          `Here is a new link to verify your email and finish setting up your account:\n\n` +
+          `${verifyUrl.toString()}\n\n` +
+          `This link expires in 24 hours.\n`
+      });
+      await writeAudit(env, req, admin, action, { userId, email });
+      return json(req, 200, { ok: true });
+    }
+
+    case 'suspend': {
+      if (userId === admin.sub) return errorJson(req, 409, 'You cannot suspend your own account');
+
+      const body = await readJson<any>(req);
+      const reason = typeof body?.reason === 'string' ? body.reason.trim().slice(0, MAX_REASON) : '';
+      if (!reason) return errorJson(req, 400, 'Invalid reason');
+
+      // Bumping the generation and revoking sessions signs the user out everywhere right away.
+      const suspended = { at: nowIso(), by: admin.sub, reason };
+      await putEmailIndex(env, email, { ...idx, suspended, tokenGen: (idx.tokenGen ?? 0) + 1 });
+      await revokeAllSessions(env, userId);
+      await writeAudit(env, req, admin, action, { userId, email }, reason);
+      return json(req, 200, { ok: true, suspended });
+    }
+
+    case 'unsuspend': {
+      if (!idx.suspended) return errorJson(req, 409, 'Account is not suspended');
+      const { suspended: _, ...rest } = idx;
+      await putEmailIndex(env, email, rest);
+      await writeAudit(env, req, admin, action, { userId, email });
+      return json(req, 200, { ok: true });
+    }
+
+    case 'delete': {
+      if (userId === admin.sub) return errorJson(req, 409, 'You cannot delete your own account here');
+      // Audit first: afterwards there is nothing left to attribute the purge to.
+      await writeAudit(env, req, admin, action, { userId, email });
+      await purgeAccount(env, userId, email);
+      return json(req, 200, { ok: true });
+    }
+  }
+}
+
+/** GET /admin/audit?limit=&cursor=: newest first. */
+export async function handleAdminAudit(req: Request, env: Env): Promise<Response> {
+  const admin = await requireAdmin(req, env);
+  if (admin instanceof Response) return admin;
+
+  const url = new URL(req.url);
+  const limit = pageLimit(url);
+  if (limit === null) return errorJson(req, 400, `Invalid limit (1-${MAX_PAGE})`);
+
+  const res = await env.AUTH_KV.list({ prefix: keys.adminAudit(''), cursor: url.searchParams.get('cursor') || undefined, limit });
+  const entries: AdminAuditEntry[] = [];
+  for (const k of res.keys) {
+    const e = await kvGetJson<AdminAuditEntry>(env.AUTH_KV, k.name);
+    if (e) entries.push(e);
+  }
+
+  return json(req, 200, { entries, cursor: res.list_complete ? null : res.cursor });
+}
@@ -1,5 +1,8 @@
-import type { Env } from './types';
-import { verifyJwt } from './jwt';
+import { ACCOUNT_SUSPENDED_MSG, REAUTH_MAX_AGE_SECONDS, UUID_RE, type TokenScope } from './constants';
+import type { EmailIndex, Env, PersonalAccessToken, Session } from './types';
+import { getKeyring, verifyJwt } from './jwt';
+import { bytesToB64Url } from './base64url';
+import { getAccountIndex, getPersonalToken, getSession, putPersonalToken } from './storage';
 
 export function bearerToken(req: Request): string | null {
   const h = req.headers.get('Authorization') || '';
@@ -7,11 +10,119 @@ export function bearerToken(req: Request): string | null {
   return m?.[1] ?? null;
 }
 
-export async function requireAuthSub(req: Request, env: Env): Promise<string> {
+export type AuthContext = {
+  sub: string;
+  sid?: string; // absent on legacy (pre-session) tokens
+  session: Session | null;
+  account: { email: string; idx: EmailIndex } | null;
+};
+
+export async function requireAuth(req: Request, env: Env): Promise<AuthContext> {
   const token = bearerToken(req);
   if (!token) throw new Error('Missing bearer token');
-  const p = await verifyJwt(token, env.JWT_SECRET, { iss: env.JWT_ISS, aud: env.JWT_AUD });
-  return p.sub;
+  const p = await verifyJwt(token, await getKeyring(env), { iss: env.JWT_ISS, aud: env.JWT_AUD });
+
+  // One-time action tokens share the signing key but are never access tokens.
+  if (p.typ) throw new Error('Invalid token');
+
+  const account = await getAccountIndex(env, p.sub);
+  // Before the session and generation checks (suspending revokes and bumps both) so the client sees why.
+  if (account?.idx.suspended) throw new Error(ACCOUNT_SUSPENDED_MSG);
+
+  let session: Session | null = null;
+  if (p.sid) {
+    session = await getSession(env, p.sub, p.sid);
+    if (!session) throw new Error('Invalid token'); // revoked or expired
+  }
+
+  // Password changes bump the account's token generation, which retires every earlier token.
+  // Accounts we can't resolve have never been bumped (bumping writes the reverse index).
+  if ((p.gen ?? 0) !== (account?.idx.tokenGen ?? 0)) throw new Error('Invalid token');
+
+  return { sub: p.sub, sid: p.sid, session, account };
+}
+
+/** True when the caller's session began within the re-auth window (for sensitive changes without a password). */
+export function recentlySignedIn(auth: AuthContext): boolean {
+  const loginAt = auth.session ? Date.parse(auth.session.createdAt) : NaN;
+  return Number.isFinite(loginAt) && Date.now() - loginAt <= REAUTH_MAX_AGE_SECONDS * 1000;
+}
+
+// ---- Personal access tokens ----
+// Opaque "pat_<userId>.<tokenId>.<secret>". Accepted only where a route names a scope
+// (requireAuthSub); everything else (sessions, MFA, token management, ...) needs a session JWT.
+
+export const PERSONAL_TOKEN_PREFIX = 'pat_';
+const LAST_USED_RESOLUTION_MS = 60 * 60 * 1000; // don't rewrite the token on every request
+
+export async function sha256B64Url(s: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(s));
+  return bytesToB64Url(new Uint8Array(digest));
+}
+
+function parsePersonalToken(raw: string): { userId: string; id: string; secret: string } | null {
+  const parts = raw.slice(PERSONAL_TOKEN_PREFIX.length).split('.');
+  if (parts.length !== 3) return null;
+  const [userId, id, secret] = parts;
+  if (!UUID_RE.test(userId) || !UUID_RE.test(id) || !secret) return null;
+  return { userId, id, secret };
+}
+
+async function requirePersonalToken(env: Env, raw: string, scopes: TokenScope[]): Promise<string> {
+  const pat = await verifyPersonalToken(env, raw);
+  const missing = scopes.find((s) => !pat.scopes.includes(s));
+  if (missing) throw new Error(`Token lacks scope ${missing}`);
+  await touchPersonalToken(env, pat);
+  return pat.userId;
+}
+
+async function verifyPersonalToken(env: Env, raw: string): Promise<PersonalAccessToken> {
+  const parsed = parsePersonalToken(raw);
+  if (!parsed) throw new Error('Invalid token');
+
+  const pat = await getPersonalToken(env, parsed.userId, parsed.id);
+  if (!pat || pat.hash !== (await sha256B64Url(parsed.secret))) throw new Error('Invalid token');
+  if (pat.expiresAt && Date.parse(pat.expiresAt) <= Date.now()) throw new Error('Token expired');
+
+  const account = await getAccountIndex(env, pat.userId);
+  if (!account || account.idx.deletion) throw new Error('Invalid token');
+  if (account.idx.suspended) throw new Error(ACCOUNT_SUSPENDED_MSG);
+  return pat;
+}
+
+async function touchPersonalToken(env: Env, pat: PersonalAccessToken): Promise<void> {
+  const lastUsed = pat.lastUsedAt ? Date.parse(pat.lastUsedAt) : 0;
+  if (Date.now() - lastUsed > LAST_USED_RESOLUTION_MS) {
+    try {
+      await putPersonalToken(env, { ...pat, lastUsedAt: new Date().toISOString() });
+    } catch {
+      // swallow: bookkeeping only
+    }
+  }
+}
+
+/**
+ * Caller's userId for the account resource routes. Session JWTs may do anything; personal
+ * access tokens need `scope` (a read-only token can't PUT or POST), or every scope in a list.
+ */
+export async function requireAuthSub(req: Request, env: Env, scope: TokenScope | TokenScope[]): Promise<string> {
+  const token = bearerToken(req);
+  if (token?.startsWith(PERSONAL_TOKEN_PREFIX)) return requirePersonalToken(env, token, Array.isArray(scope) ? scope : [scope]);
+  return (await requireAuth(req, env)).sub;
+}
+
+/**
+ * Caller's userId plus what it may touch: `null` scopes for a session JWT (everything), the
+ * token's scopes for a personal access token. For routes that narrow their output by scope.
+ */
+export async function requireAuthScopes(req: Request, env: Env): Promise<{ sub: string; scopes: readonly string[] | null }> {
+  const token = bearerToken(req);
+  if (token?.startsWith(PERSONAL_TOKEN_PREFIX)) {
+    const pat = await verifyPersonalToken(env, token);
+    await touchPersonalToken(env, pat);
+    return { sub: pat.userId, scopes: pat.scopes };
+  }
+  return { sub: (await requireAuth(req, env)).sub, scopes: null };
 }
 
 // ---- GitHub Action HMAC auth for /email ----
@@ -0,0 +1,92 @@
+// Minimal CBOR (RFC 8949) decoder: just enough for WebAuthn attestation objects and COSE keys.
+// Maps decode to `Map` so integer keys (COSE labels) survive.
+
+export type CborValue = number | bigint | string | boolean | null | undefined | Uint8Array | CborValue[] | Map<CborValue, CborValue>;
+
+export function decodeCbor(bytes: Uint8Array): CborValue {
+  const { value, offset } = decodeCborPrefix(bytes, 0);
+  if (offset !== bytes.length) throw new Error('Invalid CBOR: trailing bytes');
+  return value;
+}
+
+/** Decode one item starting at `offset`; returns the item and the offset just past it. */
+export function decodeCborPrefix(bytes: Uint8Array, offset: number): { value: CborValue; offset: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let pos = offset;
+
+  function need(n: number): void {
+    if (pos + n > bytes.length) throw new Error('Invalid CBOR: truncated');
+  }
+
+  function readLength(info: number): number {
+    if (info < 24) return info;
+    if (info === 24) { need(1); return bytes[pos++]; }
+    if (info === 25) { need(2); const v = view.getUint16(pos); pos += 2; return v; }
+    if (info === 26) { need(4); const v = view.getUint32(pos); pos += 4; return v; }
+    if (info === 27) {
+      need(8);
+      const v = view.getBigUint64(pos);
+      pos += 8;
+      if (v > BigInt(Number.MAX_SAFE_INTEGER)) throw new Error('Invalid CBOR: length too large');
+      return Number(v);
+    }
+    throw new Error('Invalid CBOR: indefinite lengths are not supported');
+  }
+
+  function item(depth: number): CborValue {
+    if (depth > 16) throw new Error('Invalid CBOR: nested too deeply');
+    need(1);
+    const initial = bytes[pos++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return readLength(info);
+      case 1:
+        return -1 - readLength(info);
+      case 2: {
+        const len = readLength(info);
+        need(len);
+        const out = bytes.slice(pos, pos + len);
+        pos += len;
+        return out;
+      }
+      case 3: {
+        const len = readLength(info);
+        need(len);
+        const out = new TextDecoder().decode(bytes.subarray(pos, pos + len));
+        pos += len;
+        return out;
+      }
+      case 4: {
+        const len = readLength(info);
+        const out: CborValue[] = [];
+        for (let i = 0; i < len; i++) out.push(item(depth + 1));
+        return out;
+      }
+      case 5: {
+        const len = readLength(info);
+        const out = new Map<CborValue, CborValue>();
+        for (let i = 0; i < len; i++) {
+          const k = item(depth + 1);
+          out.set(k, item(depth + 1));
+        }
+        return out;
+      }
+      case 6:
+        readLength(info); // tag number: ignored, keep the tagged value
+        return item(depth + 1);
+      case 7:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        if (info === 23) return undefined;
+        throw new Error('Invalid CBOR: floats/simple values are not supported');
+    }
+    throw new Error('Invalid CBOR');
+  }
+
+  const value = item(0);
+  return { value, offset: pos };
+}
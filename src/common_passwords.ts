@@ -0,0 +1,52 @@
+// Frequently used and widely leaked passwords, lowercased. Checked locally by password_policy.ts
+// after stripping leetspeak and trailing digits/symbols, so "P@ssw0rd123!" still matches "password".
+// Entries shorter than the minimum length are kept on purpose: stripping "monkey2024!!" leaves "monkey".
+
+const LIST = `
+123456 123456789 12345678 12345 1234567 1234567890 123123 111111 000000 654321 666666 121212
+112233 123321 7777777 888888 987654321 159753 147258369 123654 5201314 1q2w3e4r 1q2w3e4r5t
+1qaz2wsx 2wsx3edc zaq12wsx zaq1zaq1 qazwsx qazwsxedc qwerty qwertyuiop qwerty123 qwertyu
+asdfgh asdfghjkl asdf zxcvbnm zxcvbn 1234qwer qwer1234 abc123 abcd1234 abcdef abcdefg
+abcdefgh a1b2c3 a1b2c3d4 aa123456 password passw0rd password1 passwort pass pass123
+passpass mypassword newpassword letmein welcome welcome1 hello hellohello iloveyou
+iloveyou1 loveme lovely love123 admin admin123 administrator root toor guest test test123
+testing temp temp123 changeme default secret secret123 login master master123 access
+trustno1 whatever nothing unknown qwerty1 monkey dragon football baseball basketball soccer
+hockey golfer tennis batman superman spiderman ironman starwars pokemon naruto princess
+sunshine shadow michael jennifer jordan jordan23 hunter hunter2 ranger buster thomas
+robert daniel andrew joshua charlie matthew jessica ashley amanda nicole michelle daniel1
+george harley maggie ginger pepper cookie chocolate cheese banana orange apple computer
+internet freedom flower summer winter spring autumn purple yellow silver golden diamond
+killer hunter1 jesus jesus1 christ angel angels blessed heaven faith family friends
+forever mustang ferrari porsche corvette camaro yamaha harley1 tigger tiger lion eagle
+falcon wolf panther cowboy cowboys packers steelers yankees lakers chelsea liverpool
+arsenal barcelona realmadrid manchester united soccer1 football1 baseball1 letmein1
+welcome123 password123 password12 password1234 admin1 admin1234 root123 user user123
+qwerty12 qwerty1234 1password p4ssword letmein123 iloveyou2 princess1 sunshine1
+shadow1 dragon1 monkey1 master1 whatever1 trustno11 starwars1 superman1 batman1
+michael1 charlie1 jordan1 ashley1 jessica1 football12 baseball12 liverpool1 chelsea1
+zxcvbnm1 asdfghjk asdf1234 1234asdf q1w2e3r4 q1w2e3r4t5 1a2b3c4d 11111111 12341234
+1111 2222 1212 6969 7777 696969 4444 5555 131313 123abc abc12345 abcabc 1234abcd
+00000000 88888888 99999999 55555555 66666666 22222222 33333333 44444444 77777777
+987654 7654321 87654321 0987654321 147258 258369 741852963 963852741 147852369
+computer1 internet1 samsung apple123 google facebook instagram twitter youtube linkedin
+microsoft windows linux ubuntu android iphone nintendo playstation xbox360 minecraft
+fortnite roblox gaming gamer hacker hacked matrix zombie vampire ninja samurai pirate
+chicken turtle rabbit kitten puppy doggy kitty cat123 dog123 bailey buddy rocky max123
+lucky lucky7 lucky13 happy happy123 smile money money123 cash rich million billion
+bitcoin crypto ethereum qwerty321 poiuytrewq mnbvcxz lkjhgfdsa 0987654321 1q2w3e 1qazxsw2
+qweasd qweasdzxc qweqwe asdasd zxczxc 123qwe 123qweasd qwe123 asd123 zxc123 123asd
+blink182 metallica nirvana slipknot eminem beyonce rihanna justin bieber taylor swift
+michael23 kobe24 lebron23 messi10 ronaldo7 cristiano neymar11 spirits whisky whiskey
+bourbon scotch rum gin vodka tequila brandy cognac wine beer cheers drinks
+letmein! welcome! password! iloveu loveyou mylove sweetheart babygirl baby123 honey
+sexy sexy123 hottie hotstuff boomer biteme 12qwaszx 1qaz1qaz 2wsxzaq1 !qaz2wsx qazxswedc 147896325 159357
+159357456 789456123 456123 456789 789456 123789 321321 456456 789789 741852 852456
+abc123456 abcde12345 a123456 a12345 123456a 12345a 123456q q123456 qwerty7 1qazzaq1
+superstar rockstar starlight moonlight sunflower rainbow butterfly dolphin unicorn
+phoenix dragonfly thunder lightning storm hurricane tornado ocean river mountain forest
+canada america england london paris berlin toronto vancouver newyork california texas
+chicago boston dallas
+`;
+
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set(LIST.split(/\s+/).filter(Boolean));
@@ -2,12 +2,28 @@ export const ALLOWED_ORIGIN = 'https://spirit.codexwilkes.com';
 
 export const JSON_CT = 'application/json; charset=utf-8';
 
-export const JWT_TTL_SECONDS = 7 * 24 * 60 * 60; // One week
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60; // 15m
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60; // 30d, sliding
 
 export const EMAIL_VERIFY_TTL_SECONDS = 24 * 60 * 60; // 24h
 export const PASSWORD_RESET_TTL_SECONDS = 30 * 60; // 30m
+export const EMAIL_CHANGE_TTL_SECONDS = 60 * 60; // 1h
+export const ACCOUNT_DELETE_GRACE_SECONDS = 7 * 24 * 60 * 60; // 7d before the final purge
+export const MAGIC_LINK_TTL_SECONDS = 15 * 60; // 15m
+export const MFA_PENDING_TTL_SECONDS = 5 * 60; // between password and second factor
+export const OAUTH_LINK_TTL_SECONDS = 5 * 60; // link request → browser reaching /oauth/:provider/start
+export const SECURITY_EVENT_RETENTION_SECONDS = 180 * 24 * 60 * 60; // per monthly bucket, from its last write
+export const REAUTH_MAX_AGE_SECONDS = 10 * 60; // "fresh login" window for sensitive actions
+
+// Shown on every auth path a suspended account hits; the admin's reason stays internal.
+export const ACCOUNT_SUSPENDED_MSG = 'This account has been suspended. Contact support if you think this is a mistake.';
 
 export const RESOURCES = ['details', 'favourites', 'sampled', 'score'] as const;
 export type Resource = (typeof RESOURCES)[number];
 
+// Personal access tokens are limited to the account resources, per resource and direction.
+export type TokenScope = `${'read' | 'write'}:${Resource}`;
+export const TOKEN_SCOPES: readonly TokenScope[] = RESOURCES.flatMap((r) => [`read:${r}`, `write:${r}`] as TokenScope[]);
+export const PERSONAL_TOKEN_MAX_DAYS = 365;
+
 export const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
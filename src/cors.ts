@@ -5,8 +5,10 @@ export function corsHeaders(req: Request): HeadersInit {
   if (origin !== ALLOWED_ORIGIN) return {};
   return {
     'Access-Control-Allow-Origin': origin,
-    'Access-Control-Allow-Methods': 'GET,PUT,POST,OPTIONS',
-    'Access-Control-Allow-Headers': 'Authorization,Content-Type,Cache-Control,Pragma',
+    'Access-Control-Allow-Methods': 'GET,PUT,POST,DELETE,OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization,Content-Type,Cache-Control,Pragma,If-Match,If-None-Match',
+    'Access-Control-Expose-Headers': 'Retry-After,ETag,Content-Disposition',
+    'Access-Control-Allow-Credentials': 'true', // POST /identities/:provider/link sets a cookie
     'Access-Control-Max-Age': '86400',
     'Vary': 'Origin'
   };
@@ -0,0 +1,65 @@
+// RFC 4180 CSV for the account export and import: CRLF line endings on output, fields quoted
+// only when needed; input may use either line ending.
+
+function csvField(v: string | number): string {
+  const s = String(v);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(header: string[], rows: Array<Array<string | number>>): string {
+  return [header, ...rows].map((r) => r.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+export type CsvRecord = { line: number; fields: string[] }; // line: 1-based line the record starts on
+
+/** Parses quoted fields (with embedded commas, quotes and newlines); skips blank lines and a leading BOM. */
+export function parseCsv(text: string): CsvRecord[] {
+  const s = text.replace(/^\uFEFF/, '');
+  const out: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  let i = 0;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== '') out.push({ line: start, fields });
+    fields = [];
+    field = '';
+  };
+
+  while (i < s.length) {
+    const c = s[i];
+    if (quoted) {
+      if (c === '"' && s[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (c === '"') quoted = false;
+      else {
+        if (c === '\n') line++;
+        field += c;
+      }
+      i++;
+      continue;
+    }
+
+    if (c === '"' && field === '') quoted = true;
+    else if (c === ',') {
+      fields.push(field);
+      field = '';
+    } else if (c === '\r' || c === '\n') {
+      if (c === '\r' && s[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      start = line;
+    } else field += c;
+    i++;
+  }
+  if (quoted) throw new Error('Invalid CSV: unterminated quoted field');
+  if (field !== '' || fields.length) endRecord();
+  return out;
+}
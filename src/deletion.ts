@@ -0,0 +1,170 @@
+import { ACCOUNT_DELETE_GRACE_SECONDS, ALLOWED_ORIGIN } from './constants';
+import type { Env, PendingDeletion } from './types';
+import { errorJson, json } from './http';
+import { recentlySignedIn, requireAuth } from './auth';
+import { getKeyring, verifyJwt } from './jwt';
+import { deleteActionTokensFor, issueActionToken, takeAction } from './actions';
+import { verifyPassword } from './password';
+import { revokeAllSessions } from './sessions';
+import { deletePasskeyOwners } from './webauthn';
+import { deleteIdentityOwners } from './identities';
+import { accountStore } from './account_store';
+import {
+  getAccountIndex,
+  getEmailIndex,
+  keys,
+  kvDeletePrefix,
+  kvGetJson,
+  kvPutJson,
+  putEmailIndex,
+  userKeyPrefixes,
+  userKeys
+} from './storage';
+import { readJson } from './validate';
+import { sendMailSmtp } from './smtp';
+
+// Self-service deletion is two-phase: DELETE /u/:uuid signs the user out everywhere and
+// schedules a purge; the cron trigger performs the purge once the grace period is over.
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+export async function handleAccountDelete(req: Request, env: Env, userId: string): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  if (auth.sub !== userId) return errorJson(req, 403, 'Forbidden');
+  if (!auth.account) return errorJson(req, 404, 'Account not found');
+  const { email, idx } = auth.account;
+
+  // Body is optional (OAuth-only accounts have nothing to send).
+  const ct = req.headers.get('Content-Type') || '';
+  const body = ct.toLowerCase().includes('application/json') ? await readJson<any>(req) : null;
+
+  if (idx.pwHash) {
+    const password = typeof body?.password === 'string' ? body.password : '';
+    if (!password) return errorJson(req, 403, 'Password required to delete your account');
+    const ok = await verifyPassword(password, idx.pwHash, env);
+    if (!ok) return errorJson(req, 403, 'Password is incorrect');
+  } else if (!recentlySignedIn(auth)) {
+    return errorJson(req, 403, 'Please sign in again to delete your account');
+  }
+
+  const requestedAt = nowIso();
+  const purgeAfter = new Date(Date.now() + ACCOUNT_DELETE_GRACE_SECONDS * 1000).toISOString();
+
+  const token = await issueActionToken(env, 'delete_cancel', userId, email, ACCOUNT_DELETE_GRACE_SECONDS);
+  const cancelUrl = new URL('/account/delete/cancel', new URL(req.url).origin);
+  cancelUrl.searchParams.set('token', token);
+
+  // Send first: without the cancel link there is no way back, so don't schedule anything if mail fails.
+  await sendMailSmtp(env, {
+    to: email,
+    subject: 'Your account is scheduled for deletion',
+    text:
+      `We received a request to delete your Spirit Tracker account.\n\n` +
+      `Your account and all of its data will be permanently deleted after ${purgeAfter.slice(0, 10)}.\n` +
+      `You have been signed out on every device.\n\n` +
+      `Changed your mind? Restore your account here:\n\n` +
+      `${cancelUrl.toString()}\n`,
+  });
+
+  await putEmailIndex(env, email, { ...idx, deletion: { requestedAt, purgeAfter }, tokenGen: (idx.tokenGen ?? 0) + 1 });
+  const pending: PendingDeletion = { userId, email, requestedAt, purgeAfter };
+  await kvPutJson(env.AUTH_KV, keys.pendingDeletion(userId), pending);
+  await revokeAllSessions(env, userId);
+
+  return json(req, 200, { ok: true, purgeAfter });
+}
+
+export async function handleAccountDeleteCancel(req: Request, env: Env): Promise<Response> {
+  const url = new URL(req.url);
+  const token = (url.searchParams.get('token') || '').trim();
+  if (!token) return errorJson(req, 400, 'Invalid token');
+
+  let p: any;
+  try {
+    p = await verifyJwt(token, await getKeyring(env), { iss: env.JWT_ISS, aud: env.JWT_AUD });
+  } catch (e: any) {
+    const msg = typeof e?.message === 'string' ? e.message : 'Invalid token';
+    return errorJson(req, 400, msg);
+  }
+
+  const typ = String(p?.typ || '');
+  const jti = String(p?.jti || '');
+  const sub = String(p?.sub || '');
+  if (typ !== 'delete_cancel' || !jti || !sub) return errorJson(req, 400, 'Invalid token');
+
+  const stored = await takeAction(env, 'delete_cancel', jti);
+  if (!stored || stored !== sub) return errorJson(req, 400, 'Invalid token');
+
+  const account = await getAccountIndex(env, sub);
+  if (!account) return errorJson(req, 400, 'Account already deleted');
+
+  const { deletion: _, ...idx } = account.idx;
+  await putEmailIndex(env, account.email, idx);
+  await env.AUTH_KV.delete(keys.pendingDeletion(sub));
+
+  return Response.redirect(`${ALLOWED_ORIGIN}/#/login?restored=1`, 302);
+}
+
+/**
+ * Permanently remove every key belonging to one account. `email` is the address known to the
+ * caller (frozen in the pending record); the current one is looked up too, in case it changed.
+ */
+export async function purgeAccount(env: Env, userId: string, email: string): Promise<void> {
+  const current = await getAccountIndex(env, userId);
+  await accountStore(env).clear(userId);
+  await deletePasskeyOwners(env, userId);
+  await deleteIdentityOwners(env, userId);
+  for (const prefix of userKeyPrefixes(userId)) await kvDeletePrefix(env.AUTH_KV, prefix);
+  await deleteActionTokensFor(env, userId);
+
+  for (const addr of new Set([email, current?.email].filter((e): e is string => !!e))) {
+    const idx = await getEmailIndex(env, addr);
+    if (idx?.userId === userId) await env.AUTH_KV.delete(keys.emailIndex(addr));
+  }
+
+  for (const k of userKeys(userId)) await env.AUTH_KV.delete(k);
+}
+
+/** Cron entry point: purge every account whose grace period has ended. */
+export async function purgeDueDeletions(env: Env): Promise<{ purged: number }> {
+  const now = Date.now();
+  let purged = 0;
+
+  let cursor: string | undefined = undefined;
+  do {
+    const res: KVNamespaceListResult<unknown, string> = await env.AUTH_KV.list({ prefix: 'auth/deletion/', cursor, limit: 1000 });
+    cursor = res.list_complete ? undefined : res.cursor;
+
+    for (const k of res.keys) {
+      const pending = await kvGetJson<PendingDeletion>(env.AUTH_KV, k.name);
+      if (!pending) continue;
+      if (Date.parse(pending.purgeAfter) > now) continue;
+
+      // Cancelled since it was scheduled: drop the stale marker only.
+      const idx = await getEmailIndex(env, pending.email);
+      if (idx && idx.userId === pending.userId && !idx.deletion) {
+        await env.AUTH_KV.delete(k.name);
+        continue;
+      }
+
+      await purgeAccount(env, pending.userId, pending.email);
+      purged++;
+
+      try {
+        await sendMailSmtp(env, {
+          to: pending.email,
+          subject: 'Your account has been deleted',
+          text:
+            `Your Spirit Tracker account and all of its data have now been permanently deleted.\n\n` +
+            `Thanks for using Spirit Tracker. You're always welcome back.\n`,
+        });
+      } catch {
+        // swallow: the purge itself already happened
+      }
+    }
+  } while (cursor);
+
+  return { purged };
+}
@@ -0,0 +1,125 @@
+import { ACCOUNT_SUSPENDED_MSG, ALLOWED_ORIGIN, EMAIL_CHANGE_TTL_SECONDS } from './constants';
+import type { Env } from './types';
+import { errorJson, json } from './http';
+import { recentlySignedIn, requireAuth } from './auth';
+import { getKeyring, verifyJwt } from './jwt';
+import { issueActionToken, takeAction } from './actions';
+import { getAccountIndex, getEmailIndex, keys, putEmailIndex, putUserEmail } from './storage';
+import { normalizeEmail, readJson, validateEmailOnly } from './validate';
+import { sendMailSmtp } from './smtp';
+import { verifyPassword } from './password';
+import { enforceRateLimit } from './ratelimit';
+import { accountStore } from './account_store';
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+export async function handleEmailChangeRequest(req: Request, env: Env): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  if (!auth.account) return errorJson(req, 404, 'Account not found');
+
+  const body = await readJson<any>(req);
+  const { email: newEmail } = validateEmailOnly(body);
+
+  // Moving the address hands over password reset and magic links, so re-authenticate like deletion does.
+  const { idx } = auth.account;
+  if (idx.pwHash) {
+    const password = typeof body?.password === 'string' ? body.password : '';
+    if (!password) return errorJson(req, 403, 'Password required to change your email');
+    if (!(await verifyPassword(password, idx.pwHash, env))) return errorJson(req, 403, 'Password is incorrect');
+  } else if (!recentlySignedIn(auth)) {
+    return errorJson(req, 403, 'Please sign in again to change your email');
+  }
+
+  const limited = await enforceRateLimit(req, env, 'email_change', auth.sub);
+  if (limited) return limited;
+
+  if (newEmail === auth.account.email) return errorJson(req, 400, 'That is already your email');
+
+  const taken = await getEmailIndex(env, newEmail);
+  if (taken) return errorJson(req, 409, 'Email already in use');
+
+  const token = await issueActionToken(env, 'email_change', auth.sub, newEmail, EMAIL_CHANGE_TTL_SECONDS);
+
+  const confirmUrl = new URL('/email/change/confirm', new URL(req.url).origin);
+  confirmUrl.searchParams.set('token', token);
+
+  await sendMailSmtp(env, {
+    to: newEmail,
+    subject: 'Confirm your new email',
+    text:
+      `Someone (hopefully you) asked to move a Spirit Tracker account to this address.\n\n` +
+      `Confirm the change here:\n\n` +
+      `${confirmUrl.toString()}\n\n` +
+      `This link expires in 1 hour.\n\n` +
+      `If you didn't request this, you can ignore this email.\n`,
+  });
+
+  return json(req, 200, { ok: true });
+}
+
+export async function handleEmailChangeConfirm(req: Request, env: Env): Promise<Response> {
+  const url = new URL(req.url);
+  const token = (url.searchParams.get('token') || '').trim();
+  if (!token) return errorJson(req, 400, 'Invalid token');
+
+  let p: any;
+  try {
+    p = await verifyJwt(token, await getKeyring(env), { iss: env.JWT_ISS, aud: env.JWT_AUD });
+  } catch (e: any) {
+    const msg = typeof e?.message === 'string' ? e.message : 'Invalid token';
+    return errorJson(req, 400, msg);
+  }
+
+  const typ = String(p?.typ || '');
+  const jti = String(p?.jti || '');
+  const sub = String(p?.sub || '');
+  const newEmail = normalizeEmail(String(p?.email || ''));
+
+  if (typ !== 'email_change' || !jti || !sub || !newEmail) return errorJson(req, 400, 'Invalid token');
+
+  const stored = await takeAction(env, 'email_change', jti);
+  if (!stored || stored !== sub) return errorJson(req, 400, 'Invalid token');
+
+  const account = await getAccountIndex(env, sub);
+  if (!account) return errorJson(req, 400, 'Invalid token');
+  if (account.idx.suspended) return errorJson(req, 403, ACCOUNT_SUSPENDED_MSG);
+  if (account.idx.deletion) {
+    return errorJson(req, 403, 'This account is scheduled for deletion. Use the link in your email to restore it.');
+  }
+
+  const oldEmail = account.email;
+  if (oldEmail !== newEmail) {
+    // Re-check: the address may have been claimed since the link was sent.
+    const taken = await getEmailIndex(env, newEmail);
+    if (taken) return errorJson(req, 409, 'Email already in use');
+
+    // KV has no transactions. Write the new entry before removing the old one so a
+    // failure part-way leaves the account reachable under at least one address.
+    await putEmailIndex(env, newEmail, { ...account.idx, verified: true, verifiedAt: nowIso() });
+    await putUserEmail(env, sub, newEmail);
+    await env.AUTH_KV.delete(keys.emailIndex(oldEmail));
+
+    await accountStore(env).write({
+      userId: sub,
+      resource: 'details',
+      op: { kind: 'assign', fields: { email: newEmail, requiresVerify: false, verifiedAt: nowIso() } }
+    });
+
+    try {
+      await sendMailSmtp(env, {
+        to: oldEmail,
+        subject: 'Your email address was changed',
+        text:
+          `The email address on your Spirit Tracker account was changed to ${newEmail}.\n\n` +
+          `This address will no longer receive sign-in links or alerts.\n\n` +
+          `If you didn't make this change, reply to this email right away.\n`,
+      });
+    } catch {
+      // swallow: the change itself already happened
+    }
+  }
+
+  return Response.redirect(`${ALLOWED_ORIGIN}/#/account?emailChanged=1`, 302);
+}
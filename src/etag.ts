@@ -0,0 +1,42 @@
+import { corsHeaders } from './cors';
+import { json, type JsonValue } from './http';
+import { bytesToB64Url } from './base64url';
+
+// Content-hash ETags for the account resources. The hash covers the JSON as stored, so any
+// change to a document (from any device or route) changes its tag; nothing extra is persisted.
+
+export async function etagFor(value: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(value)));
+  return `"${bytesToB64Url(new Uint8Array(digest).slice(0, 16))}"`;
+}
+
+function listHeader(raw: string): string[] {
+  return raw
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/** If-None-Match uses weak comparison (RFC 9110 §13.1.2), so `W/"x"` matches `"x"`. */
+export function matchesIfNoneMatch(req: Request, etag: string): boolean {
+  const raw = req.headers.get('If-None-Match');
+  if (raw === null) return false;
+  return listHeader(raw).some((t) => t === '*' || t.replace(/^W\//, '') === etag);
+}
+
+/** If-Match uses strong comparison; weak tags never match. No header means no precondition. */
+export function ifMatchFails(raw: string | null, etag: string): boolean {
+  if (raw === null) return false;
+  return !listHeader(raw).some((t) => t === '*' || t === etag);
+}
+
+export function notModified(req: Request, etag: string): Response {
+  const headers = new Headers(corsHeaders(req));
+  headers.set('ETag', etag);
+  return new Response(null, { status: 304, headers });
+}
+
+/** 412 carrying the current document, so the client can rebase its change without another GET. */
+export function preconditionFailed(req: Request, etag: string, current: JsonValue): Response {
+  return json(req, 412, { error: 'Precondition Failed', current }, { ETag: etag });
+}
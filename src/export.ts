@@ -0,0 +1,87 @@
+import { RESOURCES, type TokenScope } from './constants';
+import type { AccountExportV1, Details, Env } from './types';
+import { errorJson, json, type JsonValue } from './http';
+import { corsHeaders } from './cors';
+import { requireAuthSub } from './auth';
+import { defaultValue, getAccountIndex, getAccountResource } from './storage';
+import { toCsv } from './csv';
+import { zipStore } from './zip';
+
+// Self-service copy of an account's data (replaces asking for scripts/kv_dump_user.sh).
+// JSON is the complete, versioned form and can be fed back to POST /u/:uuid/import;
+// the zip holds one CSV per list (favourites, sampled, score), each importable on its own.
+
+export const EXPORT_FORMAT = 'spirit-tracker-export';
+
+function stringList(v: unknown): string[] {
+  return Array.isArray(v) ? v.filter((x): x is string => typeof x === 'string') : [];
+}
+
+function scoreMap(v: unknown): Record<string, number> {
+  const out: Record<string, number> = {};
+  if (v && typeof v === 'object' && !Array.isArray(v)) {
+    for (const [k, n] of Object.entries(v)) if (typeof n === 'number' && Number.isFinite(n)) out[k] = n;
+  }
+  return out;
+}
+
+export async function buildAccountExport(env: Env, userId: string): Promise<AccountExportV1 | null> {
+  const account = await getAccountIndex(env, userId);
+  if (!account) return null;
+
+  const [details, favourites, sampled, score] = await Promise.all(
+    RESOURCES.map(async (r) => (await getAccountResource(env, userId, r)) ?? defaultValue(r))
+  );
+  const d = details as Details;
+  const { pwHash, ...idx } = account.idx;
+
+  return {
+    format: EXPORT_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    userId,
+    email: account.email,
+    account: { ...idx, hasPassword: !!pwHash },
+    details: d,
+    favourites: stringList(favourites),
+    sampled: stringList(sampled),
+    score: scoreMap(score),
+    notificationRules: Array.isArray(d?.emailNotifications?.rules) ? d.emailNotifications.rules : []
+  };
+}
+
+/** GET /u/:uuid/export?format=json|csv (default json). Personal access tokens need every read scope. */
+export async function handleAccountExport(req: Request, env: Env, userId: string): Promise<Response> {
+  const sub = await requireAuthSub(req, env, RESOURCES.map((r) => `read:${r}` as TokenScope));
+  if (sub !== userId) return errorJson(req, 403, 'Forbidden');
+
+  const format = new URL(req.url).searchParams.get('format') ?? 'json';
+  if (format !== 'json' && format !== 'csv') return errorJson(req, 400, 'Invalid format (json or csv)');
+
+  const data = await buildAccountExport(env, userId);
+  if (!data) return errorJson(req, 404, 'Account not found');
+
+  const stamp = data.exportedAt.slice(0, 10);
+  if (format === 'json') {
+    return json(req, 200, data as unknown as JsonValue, {
+      'Content-Disposition': `attachment; filename="spirit-tracker-${stamp}.json"`,
+      'Cache-Control': 'no-store'
+    });
+  }
+
+  const enc = new TextEncoder();
+  const zip = zipStore(
+    [
+      { name: 'favourites.csv', data: enc.encode(toCsv(['sku'], data.favourites.map((s) => [s]))) },
+      { name: 'sampled.csv', data: enc.encode(toCsv(['sku'], data.sampled.map((s) => [s]))) },
+      { name: 'score.csv', data: enc.encode(toCsv(['sku', 'score'], Object.entries(data.score))) }
+    ],
+    new Date(data.exportedAt)
+  );
+
+  const headers = new Headers(corsHeaders(req));
+  headers.set('Content-Type', 'application/zip');
+  headers.set('Content-Disposition', `attachment; filename="spirit-tracker-${stamp}.zip"`);
+  headers.set('Cache-Control', 'no-store');
+  return new Response(zip, { status: 200, headers });
+}
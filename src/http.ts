@@ -3,12 +3,54 @@ import { corsHeaders } from './cors';
 
 export type JsonValue = null | boolean | number | string | JsonValue[] | { [k: string]: JsonValue };
 
-export function json(req: Request, status: number, body: JsonValue): Response {
+export function json(req: Request, status: number, body: JsonValue, extraHeaders?: HeadersInit): Response {
   const headers = new Headers(corsHeaders(req));
   headers.set('Content-Type', JSON_CT);
+  if (extraHeaders) new Headers(extraHeaders).forEach((v, k) => headers.set(k, v));
   return new Response(JSON.stringify(body), { status, headers });
 }
 
-export function errorJson(req: Request, status: number, message: string): Response {
-  return json(req, status, { error: message });
+/** 200 + JS redirect, so the token in the URL fragment never reaches a Location header or server log. */
+export function htmlRedirect(to: string): Response {
+  const body = `<!doctype html><meta charset="utf-8"><script>location.replace(${JSON.stringify(to)});</script>`;
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+}
+
+/** Human-facing error for browser navigations (OAuth callbacks), where a JSON body would be a dead end. */
+export function htmlError(status: number, title: string, message: string, backTo: string): Response {
+  const body =
+    `<!doctype html><meta charset="utf-8"><meta name="viewport" content="width=device-width">` +
+    `<title>${escapeHtml(title)}</title>` +
+    `<body style="font-family:system-ui,sans-serif;max-width:32rem;margin:4rem auto;padding:0 1rem">` +
+    `<h1 style="font-size:1.25rem">${escapeHtml(title)}</h1>` +
+    `<p>${escapeHtml(message)}</p>` +
+    `<p><a href="${escapeHtml(backTo)}">Back to Spirit Tracker</a></p>`;
+  return new Response(body, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+/** Yes/no page for browser flows: "Continue" POSTs `fields` to `action`, "Cancel" goes back to `cancelTo`. */
+export function htmlConfirm(title: string, message: string, action: string, fields: Record<string, string>, cancelTo: string): Response {
+  const inputs = Object.entries(fields)
+    .map(([k, v]) => `<input type="hidden" name="${escapeHtml(k)}" value="${escapeHtml(v)}">`)
+    .join('');
+  const body =
+    `<!doctype html><meta charset="utf-8"><meta name="viewport" content="width=device-width">` +
+    `<title>${escapeHtml(title)}</title>` +
+    `<body style="font-family:system-ui,sans-serif;max-width:32rem;margin:4rem auto;padding:0 1rem">` +
+    `<h1 style="font-size:1.25rem">${escapeHtml(title)}</h1>` +
+    `<p>${escapeHtml(message)}</p>` +
+    `<form method="post" action="${escapeHtml(action)}">${inputs}<button type="submit">Continue</button> ` +
+    `<a href="${escapeHtml(cancelTo)}">Cancel</a></form>`;
+  return new Response(body, {
+    status: 200,
+    headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store', 'X-Frame-Options': 'DENY' }
+  });
+}
+
+export function errorJson(req: Request, status: number, message: string, extraHeaders?: HeadersInit): Response {
+  return json(req, status, { error: message }, extraHeaders);
 }
@@ -0,0 +1,135 @@
+import { OAUTH_LINK_TTL_SECONDS } from './constants';
+import type { EmailIndex, Env } from './types';
+import { errorJson, json } from './http';
+import { recentlySignedIn, requireAuth, sha256B64Url, type AuthContext } from './auth';
+import { hashPassword } from './password';
+import { checkPasswordPolicy } from './password_policy';
+import { issueActionToken } from './actions';
+import { isOauthProvider, linkCookie, providerLabel } from './oauth';
+import { deleteIdentity, getIdentity, keys, listIdentities, listPasskeys, putEmailIndex } from './storage';
+import { readJson } from './validate';
+import { bytesToB64Url } from './base64url';
+import { recordSecurityEvent } from './security_events';
+
+// Sign-in methods on an account: a password, linked providers and passkeys.
+// Magic links aren't counted: they only prove the mailbox and can't be removed.
+
+/** Number of ways the account can still sign in; removals must leave at least one. */
+export async function countSignInMethods(env: Env, userId: string, idx: EmailIndex): Promise<number> {
+  const [identities, passkeys] = await Promise.all([listIdentities(env, userId), listPasskeys(env, userId)]);
+  return (idx.pwHash ? 1 : 0) + identities.length + passkeys.length;
+}
+
+const LAST_METHOD_MSG = 'This is your only way to sign in. Add another sign-in method before removing it.';
+
+export function requireRecentSignIn(req: Request, auth: AuthContext, what: string): Response | null {
+  return recentlySignedIn(auth) ? null : errorJson(req, 403, `Please sign in again to ${what}`);
+}
+
+export async function handleIdentityList(req: Request, env: Env): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  if (!auth.account) return errorJson(req, 404, 'Account not found');
+
+  const [identities, passkeys] = await Promise.all([listIdentities(env, auth.sub), listPasskeys(env, auth.sub)]);
+  identities.sort((a, b) => a.linkedAt.localeCompare(b.linkedAt));
+
+  return json(req, 200, {
+    password: !!auth.account.idx.pwHash,
+    providers: identities.map((i) => ({ provider: i.provider, email: i.email, linkedAt: i.linkedAt })),
+    passkeys: passkeys.length,
+  });
+}
+
+/**
+ * Returns a one-time `/oauth/:provider/start?link=...` URL. The SPA navigates there (so the
+ * state cookie is set first-party); on return the user confirms which account gets the identity.
+ * The URL only works in this browser: it's bound to the cookie set here, so the SPA must call
+ * this with `credentials: 'include'`.
+ */
+export async function handleIdentityLinkStart(req: Request, env: Env, provider: string): Promise<Response> {
+  if (!isOauthProvider(env, provider)) return errorJson(req, 404, 'Not found');
+  const auth = await requireAuth(req, env);
+  if (!auth.account) return errorJson(req, 404, 'Account not found');
+
+  const stale = requireRecentSignIn(req, auth, 'link a sign-in method');
+  if (stale) return stale;
+
+  if (await getIdentity(env, auth.sub, provider)) {
+    return errorJson(req, 409, `A ${providerLabel(env, provider)} account is already linked`);
+  }
+
+  const nonce = bytesToB64Url(crypto.getRandomValues(new Uint8Array(32)));
+  const token = await issueActionToken(env, 'oauth_link', auth.sub, auth.account.email, OAUTH_LINK_TTL_SECONDS, {
+    bind: await sha256B64Url(nonce)
+  });
+  const url = new URL(`/oauth/${provider}/start`, new URL(req.url).origin);
+  url.searchParams.set('link', token);
+  return json(req, 200, { url: url.toString() }, { 'Set-Cookie': linkCookie(nonce) });
+}
+
+export async function handleIdentityUnlink(req: Request, env: Env, provider: string): Promise<Response> {
+  // No provider check: identities from a since-removed OIDC provider must stay removable.
+  const auth = await requireAuth(req, env);
+  if (!auth.account) return errorJson(req, 404, 'Account not found');
+  const { email, idx } = auth.account;
+
+  const identity = await getIdentity(env, auth.sub, provider);
+  if (!identity) return errorJson(req, 404, 'Not found');
+
+  const stale = requireRecentSignIn(req, auth, 'remove a sign-in method');
+  if (stale) return stale;
+  if ((await countSignInMethods(env, auth.sub, idx)) <= 1) return errorJson(req, 409, LAST_METHOD_MSG);
+
+  await deleteIdentity(env, auth.sub, identity);
+  // Otherwise the next sign-in with this provider would match the account by email and relink it.
+  const unlinked = new Set(idx.unlinkedProviders ?? []).add(provider);
+  await putEmailIndex(env, email, { ...idx, unlinkedProviders: Array.from(unlinked) });
+  await recordSecurityEvent(env, req, auth.sub, { type: 'identity_unlinked', method: provider }, email);
+
+  return json(req, 200, { ok: true });
+}
+
+/** Add a password to an account that signs in some other way. Changing an existing one is /password/change. */
+export async function handlePasswordSet(req: Request, env: Env): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  if (!auth.account) return errorJson(req, 404, 'Account not found');
+  const { email, idx } = auth.account;
+
+  const body = await readJson<any>(req);
+  const password = typeof body?.password === 'string' ? body.password : '';
+  if (!password) return errorJson(req, 400, 'Invalid password');
+
+  if (idx.pwHash) return errorJson(req, 409, 'Password already set. Use /password/change instead.');
+
+  const stale = requireRecentSignIn(req, auth, 'add a password');
+  if (stale) return stale;
+
+  const weak = checkPasswordPolicy(env, password, email);
+  if (weak) return errorJson(req, 400, weak);
+
+  await putEmailIndex(env, email, { ...idx, pwHash: await hashPassword(password, env) });
+  await recordSecurityEvent(env, req, auth.sub, { type: 'password_set' }, email);
+  return json(req, 200, { ok: true });
+}
+
+export async function handlePasswordRemove(req: Request, env: Env): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  if (!auth.account) return errorJson(req, 404, 'Account not found');
+  const { email, idx } = auth.account;
+
+  if (!idx.pwHash) return errorJson(req, 404, 'No password set for this account');
+
+  const stale = requireRecentSignIn(req, auth, 'remove your password');
+  if (stale) return stale;
+  if ((await countSignInMethods(env, auth.sub, idx)) <= 1) return errorJson(req, 409, LAST_METHOD_MSG);
+
+  const { pwHash: _, ...rest } = idx;
+  await putEmailIndex(env, email, rest);
+  await recordSecurityEvent(env, req, auth.sub, { type: 'password_removed' }, email);
+  return json(req, 200, { ok: true });
+}
+
+/** Drop the provider → user lookups before an account purge removes the identities themselves. */
+export async function deleteIdentityOwners(env: Env, userId: string): Promise<void> {
+  for (const i of await listIdentities(env, userId)) await env.AUTH_KV.delete(keys.identityOwner(i.provider, i.subject));
+}
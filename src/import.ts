@@ -0,0 +1,245 @@
+import type { Env } from './types';
+import { errorJson, json, type JsonValue } from './http';
+import { requireAuthScopes } from './auth';
+import { accountStore, type AccountOp } from './account_store';
+import { defaultValue, getAccountResource } from './storage';
+import { etagFor } from './etag';
+import { parseCsv } from './csv';
+import { unzipStored } from './zip';
+import { assertSku } from './validate';
+import { EXPORT_FORMAT } from './export';
+
+// POST /u/:uuid/import: load favourites, sampled and score from a spreadsheet (CSV), the export
+// zip of CSVs, or the export JSON. Rows are checked one by one; bad rows are reported and skipped.
+// merge adds to what's there; replace makes each imported list exactly the valid rows, and writes
+// nothing when any row fails, so a half-broken file can't wipe a list.
+
+const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+const MAX_IMPORT_ROWS = 10_000;
+const MAX_CONFLICT_RETRIES = 3;
+
+const LISTS = ['favourites', 'sampled', 'score'] as const;
+type ImportList = (typeof LISTS)[number];
+
+type ImportRow = { row: number; sku: unknown; score?: unknown };
+type ValidRow = { row: number; sku: string; score?: number };
+type RowError = { resource: ImportList; row: number; sku?: string; error: string };
+type ListCounts = { added: number; updated: number; skipped: number; removed: number };
+type ListResult = ListCounts & { applied: boolean };
+type ImportMode = 'merge' | 'replace';
+
+function isList(name: string): name is ImportList {
+  return (LISTS as readonly string[]).includes(name);
+}
+
+// ---- Parsing: every source becomes rows per list ----
+
+function rowsFromCsv(text: string, resource: ImportList | null, source: string): { resource: ImportList; rows: ImportRow[] } {
+  const records = parseCsv(text);
+  if (!records.length) throw new Error(`Invalid CSV (${source}): empty`);
+
+  const header = records[0].fields.map((h) => h.trim().toLowerCase());
+  const skuCol = header.indexOf('sku');
+  const scoreCol = header.indexOf('score');
+  if (skuCol < 0) throw new Error(`Invalid CSV (${source}): the header row must have a sku column`);
+
+  const target = resource ?? (scoreCol >= 0 ? 'score' : null);
+  if (!target) throw new Error('Invalid import: CSV without a score column needs ?resource=favourites|sampled');
+  if (target === 'score' && scoreCol < 0) throw new Error(`Invalid CSV (${source}): score needs a score column`);
+
+  const rows = records.slice(1).map((r) => ({
+    row: r.line,
+    sku: r.fields[skuCol] ?? '',
+    ...(target === 'score' ? { score: r.fields[scoreCol] ?? '' } : {})
+  }));
+  return { resource: target, rows };
+}
+
+function rowsFromExport(body: any): Map<ImportList, ImportRow[]> {
+  if (!body || typeof body !== 'object' || body.format !== EXPORT_FORMAT) {
+    throw new Error(`Invalid import: expected a ${EXPORT_FORMAT} document`);
+  }
+  if (body.version !== 1) throw new Error(`Invalid import: unsupported export version ${String(body.version)}`);
+
+  const out = new Map<ImportList, ImportRow[]>();
+  for (const name of ['favourites', 'sampled'] as const) {
+    if (body[name] === undefined) continue;
+    if (!Array.isArray(body[name])) throw new Error(`${name} must be an array`);
+    out.set(name, body[name].map((sku: unknown, i: number) => ({ row: i + 1, sku })));
+  }
+  if (body.score !== undefined) {
+    if (!body.score || typeof body.score !== 'object' || Array.isArray(body.score)) throw new Error('score must be an object');
+    out.set('score', Object.entries(body.score).map(([sku, score], i) => ({ row: i + 1, sku, score })));
+  }
+  return out;
+}
+
+async function readImport(req: Request, resourceParam: ImportList | null): Promise<Map<ImportList, ImportRow[]>> {
+  const declared = Number(req.headers.get('Content-Length') || 0);
+  if (declared > MAX_IMPORT_BYTES) throw new Error('Invalid import: file too large');
+  const bytes = new Uint8Array(await req.arrayBuffer());
+  if (bytes.length > MAX_IMPORT_BYTES) throw new Error('Invalid import: file too large');
+
+  const ct = (req.headers.get('Content-Type') || '').toLowerCase();
+  const text = () => new TextDecoder().decode(bytes);
+  let out: Map<ImportList, ImportRow[]>;
+
+  if (ct.includes('application/json')) {
+    let body: unknown;
+    try {
+      body = JSON.parse(text());
+    } catch {
+      throw new Error('Invalid JSON');
+    }
+    out = rowsFromExport(body);
+  } else if (ct.includes('text/csv') || ct.includes('text/plain')) {
+    const { resource, rows } = rowsFromCsv(text(), resourceParam, 'body');
+    out = new Map([[resource, rows]]);
+  } else if (ct.includes('application/zip')) {
+    out = new Map();
+    for (const entry of unzipStored(bytes)) {
+      const name = entry.name.split('/').pop()!.replace(/\.csv$/i, '');
+      if (!isList(name)) continue;
+      out.set(name, rowsFromCsv(new TextDecoder().decode(entry.data), name, entry.name).rows);
+    }
+  } else {
+    throw new Error('Invalid import: send text/csv, application/zip or application/json');
+  }
+
+  if (resourceParam) {
+    for (const k of [...out.keys()]) if (k !== resourceParam) out.delete(k);
+  }
+  if (!out.size) throw new Error('Invalid import: nothing to import');
+
+  let total = 0;
+  for (const rows of out.values()) total += rows.length;
+  if (total > MAX_IMPORT_ROWS) throw new Error(`Invalid import: more than ${MAX_IMPORT_ROWS} rows`);
+  return out;
+}
+
+// ---- Validation: each row on its own ----
+
+function validateRows(resource: ImportList, rows: ImportRow[], errors: RowError[]): ValidRow[] {
+  const seen = new Map<string, number>();
+  const out: ValidRow[] = [];
+
+  for (const r of rows) {
+    let sku: string;
+    try {
+      sku = assertSku(r.sku, 'sku');
+    } catch (e: any) {
+      errors.push({ resource, row: r.row, error: e.message });
+      continue;
+    }
+
+    const first = seen.get(sku);
+    if (first !== undefined) {
+      errors.push({ resource, row: r.row, sku, error: `Duplicate sku (first on row ${first})` });
+      continue;
+    }
+
+    if (resource === 'score') {
+      const raw = typeof r.score === 'string' ? r.score.trim() : r.score;
+      const n = typeof raw === 'number' ? raw : raw === '' || raw == null ? NaN : Number(raw);
+      if (!Number.isFinite(n)) {
+        errors.push({ resource, row: r.row, sku, error: 'score must be a number' });
+        continue;
+      }
+      out.push({ row: r.row, sku, score: n });
+    } else {
+      out.push({ row: r.row, sku });
+    }
+    seen.set(sku, r.row);
+  }
+  return out;
+}
+
+// ---- Planning: counts and the write, against a given current document ----
+
+function planList(resource: ImportList, mode: ImportMode, current: unknown, rows: ValidRow[]): { counts: ListCounts; op: AccountOp } {
+  const counts: ListCounts = { added: 0, updated: 0, skipped: 0, removed: 0 };
+
+  if (resource === 'score') {
+    const existing = new Map(
+      current && typeof current === 'object' && !Array.isArray(current) ? Object.entries(current as Record<string, unknown>) : []
+    );
+    const next: Record<string, number> = {};
+    for (const r of rows) {
+      if (!existing.has(r.sku)) counts.added++;
+      else if (existing.get(r.sku) !== r.score) counts.updated++;
+      else counts.skipped++;
+      next[r.sku] = r.score!;
+    }
+    if (mode === 'merge') return { counts, op: { kind: 'score', patch: next } };
+    counts.removed = [...existing.keys()].filter((k) => !Object.prototype.hasOwnProperty.call(next, k)).length;
+    return { counts, op: { kind: 'put', value: next } };
+  }
+
+  const existing = new Set(Array.isArray(current) ? current.filter((x) => typeof x === 'string') : []);
+  const skus = rows.map((r) => r.sku);
+  for (const sku of skus) {
+    if (existing.has(sku)) counts.skipped++;
+    else counts.added++;
+  }
+  if (mode === 'merge') return { counts, op: { kind: 'toggle', patch: Object.fromEntries(skus.map((s) => [s, true])) } };
+  const keep = new Set(skus);
+  counts.removed = [...existing].filter((s) => !keep.has(s)).length;
+  return { counts, op: { kind: 'put', value: skus } };
+}
+
+/**
+ * Applies one list through the account store. The plan is made against the document the writer
+ * holds (If-Match on its ETag), so the counts describe exactly what was written. When other
+ * writes kept winning nothing is written and the counts are the last plan, with applied: false.
+ */
+async function applyList(env: Env, userId: string, resource: ImportList, mode: ImportMode, rows: ValidRow[]): Promise<ListResult> {
+  let current = (await getAccountResource(env, userId, resource)) ?? defaultValue(resource);
+  for (let attempt = 0; attempt < MAX_CONFLICT_RETRIES; attempt++) {
+    const { counts, op } = planList(resource, mode, current, rows);
+    const result = await accountStore(env).write({ userId, resource, op, ifMatch: await etagFor(current) });
+    if (result.ok) return { ...counts, applied: true };
+    current = result.current;
+  }
+  return { ...planList(resource, mode, current, rows).counts, applied: false };
+}
+
+/** POST /u/:uuid/import?mode=merge|replace&dryRun=1&resource=favourites|sampled|score */
+export async function handleAccountImport(req: Request, env: Env, userId: string): Promise<Response> {
+  const url = new URL(req.url);
+  const mode = url.searchParams.get('mode') ?? 'merge';
+  if (mode !== 'merge' && mode !== 'replace') return errorJson(req, 400, 'Invalid mode (merge or replace)');
+  const dryRunRaw = url.searchParams.get('dryRun');
+  const dryRun = dryRunRaw === '1' || dryRunRaw === 'true';
+  const resourceRaw = url.searchParams.get('resource');
+  if (resourceRaw !== null && !isList(resourceRaw)) return errorJson(req, 400, 'Invalid resource (favourites, sampled or score)');
+
+  // Authenticate before reading the body: parsing up to MAX_IMPORT_BYTES is only done for the owner.
+  const { sub, scopes } = await requireAuthScopes(req, env);
+  if (sub !== userId) return errorJson(req, 403, 'Forbidden');
+
+  const lists = await readImport(req, resourceRaw);
+
+  // Personal access tokens: which lists are touched is only known once the body is parsed.
+  const missing = scopes && [...lists.keys()].find((r) => !scopes.includes(`write:${r}`));
+  if (missing) throw new Error(`Token lacks scope write:${missing}`);
+
+  const errors: RowError[] = [];
+  const valid = new Map<ImportList, ValidRow[]>();
+  for (const [resource, rows] of lists) valid.set(resource, validateRows(resource, rows, errors));
+
+  // Lists are written one after another, so each reports its own `applied`: a list that kept
+  // conflicting is skipped while the others still go through, and the response says which.
+  const write = !dryRun && !(mode === 'replace' && errors.length > 0);
+  const resources: Partial<Record<ImportList, ListResult>> = {};
+  for (const [resource, rows] of valid) {
+    if (write) {
+      resources[resource] = await applyList(env, userId, resource, mode, rows);
+    } else {
+      const current = (await getAccountResource(env, userId, resource)) ?? defaultValue(resource);
+      resources[resource] = { ...planList(resource, mode, current, rows).counts, applied: false };
+    }
+  }
+  const applied = write && Object.values(resources).every((r) => r.applied);
+
+  return json(req, 200, { mode, dryRun, applied, resources, errors } as unknown as JsonValue);
+}
@@ -1,14 +1,41 @@
-import { RESOURCES, UUID_RE, JWT_TTL_SECONDS, EMAIL_VERIFY_TTL_SECONDS, PASSWORD_RESET_TTL_SECONDS } from './constants';
+import { RESOURCES, UUID_RE, ACCOUNT_SUSPENDED_MSG, EMAIL_VERIFY_TTL_SECONDS, PASSWORD_RESET_TTL_SECONDS } from './constants';
 import type { Env, EmailEventPackV1, EmailRuleV1 } from './types';
 import { handleOptions } from './cors';
 import { errorJson, json } from './http';
-import { requireAuthSub, requireEmailPackHmac } from './auth';
-import { signJwt, verifyJwt } from './jwt';
-import { hashPassword, verifyPassword } from './password';
-import { getAccountResource, getDetails, getEmailIndex, keys, putAccountResource, putEmailIndex, defaultValue } from './storage';
-import { readJson, validateDetails, validateEmailOnly, validateEmailPassword, validatePasswordResetConfirm, validateScore, validateStringArray, validateBoolMap, validateScorePatch, normalizeEmail, validateEmailEventPackV1 } from './validate';
+import { etagFor, matchesIfNoneMatch, notModified, preconditionFailed } from './etag';
+import { accountStore, type AccountOp } from './account_store';
+import { handleAccountBatch, handleAccountSnapshot } from './account_bulk';
+import { handleAccountExport } from './export';
+import { handleAccountImport } from './import';
+import { requireAuth, requireAuthSub, requireEmailPackHmac } from './auth';
+import { getKeyring, publicJwks, verifyJwt } from './jwt';
+import { issueActionToken, takeAction } from './actions';
+import { hashPassword, needsRehash, verifyPassword } from './password';
+import { checkPasswordPolicy } from './password_policy';
+import { returnToParam, safeReturnTo } from './return_to';
+import { getAccountResource, getDetails, getEmailIndex, getMfa, keys, putAccountResource, putEmailIndex, putUserEmail, defaultValue } from './storage';
+import { readJson, validateDetails, validateEmailOnly, validateEmailPassword, validatePasswordChange, validatePasswordResetConfirm, validateScore, validateStringArray, validateBoolMap, validateScorePatch, normalizeEmail, validateEmailEventPackV1 } from './validate';
 import { handleOauth } from './oauth';
+import { handleAccountDelete, handleAccountDeleteCancel, purgeDueDeletions } from './deletion';
+import { handleLoginMfa, handleMfaStatus, handleTotpConfirm, handleTotpDisable, handleTotpEnroll, issueMfaPendingToken, mfaEnabled } from './mfa';
+import {
+  handlePasskeyDelete,
+  handlePasskeyList,
+  handlePasskeyLoginOptions,
+  handlePasskeyLoginVerify,
+  handlePasskeyRegisterOptions,
+  handlePasskeyRegisterVerify
+} from './webauthn';
+import { handleIdentityLinkStart, handleIdentityList, handleIdentityUnlink, handlePasswordRemove, handlePasswordSet } from './identities';
+import { handleMagicLinkCallback, handleMagicLinkRequest } from './magic_link';
+import { handleMe } from './me';
+import { handleSecurityEvents, recordSecurityEvent } from './security_events';
+import { handleTokenCreate, handleTokenDelete, handleTokenList } from './personal_tokens';
+import { handleAdminAudit, handleAdminUserAction, handleAdminUserGet, handleAdminUserList, type AdminAction } from './admin';
+import { handleEmailChangeConfirm, handleEmailChangeRequest } from './email_change';
+import { handleLogoutAll, handleSessionDelete, handleSessionsList, handleTokenRefresh, issueToken, revokeAllSessions } from './sessions';
 import { sendMailSmtp } from './smtp';
+import { clearLoginFailures, enforceRateLimit, lockoutRemaining, recordLoginFailure, tooManyRequests } from './ratelimit';
 import { buildEmailAlert } from "./email_alert";
 
 function withTimeout<T>(p: Promise<T>, ms: number, label: string): Promise<T> {
@@ -27,91 +54,20 @@ function trimTrailingSlashes(path: string): string {
   return path.length > 1 ? path.replace(/\/+$/g, '') : path;
 }
 
-async function issueToken(env: Env, userId: string): Promise<string> {
-  const exp = Math.floor(Date.now() / 1000) + JWT_TTL_SECONDS;
-  return signJwt({ sub: userId, exp, iss: env.JWT_ISS, aud: env.JWT_AUD }, env.JWT_SECRET);
-}
-
-// --- One-time action tokens (email verify + password reset) ---
-
-type ActionType = 'email_verify' | 'pw_reset';
-
-function actionKey(typ: ActionType, jti: string): string {
-  return `auth/action/${typ}/${jti}`;
-}
-
-async function putAction(env: Env, typ: ActionType, jti: string, userId: string, ttlSeconds: number): Promise<void> {
-  await env.AUTH_KV.put(actionKey(typ, jti), userId, { expirationTtl: ttlSeconds });
-}
-
-async function takeAction(env: Env, typ: ActionType, jti: string): Promise<string | null> {
-  const k = actionKey(typ, jti);
-  const v = await env.AUTH_KV.get(k);
-  if (!v) return null;
-  await env.AUTH_KV.delete(k);
-  return v;
-}
-
-async function issueActionToken(env: Env, typ: ActionType, userId: string, email: string, ttlSeconds: number): Promise<string> {
-  const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
-  const jti = crypto.randomUUID();
-  await putAction(env, typ, jti, userId, ttlSeconds);
-  return signJwt({ sub: userId, exp, iss: env.JWT_ISS, aud: env.JWT_AUD, typ, jti, email }, env.JWT_SECRET);
-}
-
-function mergeBoolMapIntoStringArray(existing: unknown, patch: Record<string, boolean>): string[] {
-  const cur = Array.isArray(existing) ? existing.filter((x) => typeof x === 'string') : [];
-  const set = new Set(cur);
-
-  for (const [k, v] of Object.entries(patch)) {
-    if (v) set.add(k);
-    else set.delete(k);
-  }
-
-  return Array.from(set);
-}
-
-function mergeScore(existing: unknown, patch: Record<string, number | null>): Record<string, number> {
-  const cur: Record<string, number> = {};
-
-  if (existing && typeof existing === 'object' && !Array.isArray(existing)) {
-    for (const [k, v] of Object.entries(existing as Record<string, unknown>)) {
-      if (typeof k !== 'string' || k.length > 256) continue;
-      if (typeof v === 'number' && Number.isFinite(v)) cur[k] = v;
-    }
-  }
-
-  for (const [k, v] of Object.entries(patch)) {
-    if (v === null) delete cur[k];
-    else cur[k] = v;
-  }
-
-  return cur;
-}
-
 async function handleAccountPost(req: Request, env: Env, userId: string, resource: (typeof RESOURCES)[number]): Promise<Response> {
-  const sub = await requireAuthSub(req, env);
+  const sub = await requireAuthSub(req, env, `write:${resource}`);
   if (sub !== userId) return errorJson(req, 403, 'Forbidden');
 
   const body = await readJson<any>(req);
 
-  if (resource === 'favourites' || resource === 'sampled') {
-    const patch = validateBoolMap(body, resource);
-    const existing = await getAccountResource(env, userId, resource);
-    const merged = mergeBoolMapIntoStringArray(existing ?? defaultValue(resource), patch);
-    await putAccountResource(env, userId, resource, merged);
-    return json(req, 200, { ok: true });
-  }
-
-  if (resource === 'score') {
-    const patch = validateScorePatch(body); // number | null
-    const existing = await getAccountResource(env, userId, 'score');
-    const merged = mergeScore(existing ?? defaultValue('score'), patch);
-    await putAccountResource(env, userId, 'score', merged);
-    return json(req, 200, { ok: true });
-  }
+  let op: AccountOp;
+  if (resource === 'favourites' || resource === 'sampled') op = { kind: 'toggle', patch: validateBoolMap(body, resource) };
+  else if (resource === 'score') op = { kind: 'score', patch: validateScorePatch(body) }; // number | null
+  else return errorJson(req, 405, 'Method not allowed');
 
-  return errorJson(req, 405, 'Method not allowed');
+  const result = await accountStore(env).write({ userId, resource, op, ifMatch: req.headers.get('If-Match') });
+  if (!result.ok) return preconditionFailed(req, result.etag, result.current);
+  return json(req, 200, { ok: true }, { ETag: result.etag });
 }
 
 async function handleSignup(req: Request, env: Env): Promise<Response> {
@@ -121,18 +77,26 @@ async function handleSignup(req: Request, env: Env): Promise<Response> {
   const body = await withTimeout(readJson<any>(req), STEP_MS, 'readJson');
 
   const { email, password } = validateEmailPassword(body);
+  const returnTo = safeReturnTo(env, body?.returnTo);
+
+  const weak = checkPasswordPolicy(env, password, email);
+  if (weak) return errorJson(req, 400, weak);
+
+  const limited = await enforceRateLimit(req, env, 'signup', email);
+  if (limited) return limited;
 
   const existing = await withTimeout(getEmailIndex(env, email), STEP_MS, 'getEmailIndex');
   if (existing) return errorJson(req, 409, 'Email already exists');
 
   const userId = crypto.randomUUID();
-  const pwHash = await withTimeout(hashPassword(password, env.PASSWORD_PEPPER), STEP_MS, 'hashPassword');
+  const pwHash = await withTimeout(hashPassword(password, env), STEP_MS, 'hashPassword');
 
   await withTimeout(
     putEmailIndex(env, email, { userId, pwHash, createdAt: nowIso(), verified: false }),
     STEP_MS,
     'putEmailIndex'
   );
+  await withTimeout(putUserEmail(env, userId, email), STEP_MS, 'putUserEmail');
 
   await withTimeout(
     putAccountResource(env, userId, 'details', { public: false, createdAt: nowIso(), email, requiresVerify: true }),
@@ -144,7 +108,7 @@ async function handleSignup(req: Request, env: Env): Promise<Response> {
   await withTimeout(putAccountResource(env, userId, 'score', {}), STEP_MS, 'putAccountResource(score)');
 
   const token = await withTimeout(
-    issueActionToken(env, 'email_verify', userId, email, EMAIL_VERIFY_TTL_SECONDS),
+    issueActionToken(env, 'email_verify', userId, email, EMAIL_VERIFY_TTL_SECONDS, { returnTo }),
     STEP_MS,
     'issueActionToken'
   );
@@ -170,6 +134,7 @@ async function handleSignup(req: Request, env: Env): Promise<Response> {
   } catch (e: any) {
     // rollback best-effort
     try { await env.AUTH_KV.delete(keys.emailIndex(email)); } catch {}
+    try { await env.AUTH_KV.delete(keys.userEmail(userId)); } catch {}
     try { await env.AUTH_KV.delete(keys.acct(userId, 'details')); } catch {}
     try { await env.AUTH_KV.delete(keys.acct(userId, 'favourites')); } catch {}
     try { await env.AUTH_KV.delete(keys.acct(userId, 'sampled')); } catch {}
@@ -186,36 +151,79 @@ async function handleLogin(req: Request, env: Env): Promise<Response> {
   const body = await readJson<any>(req);
   const { email, password } = validateEmailPassword(body);
 
+  const limited = await enforceRateLimit(req, env, 'login', email);
+  if (limited) return limited;
+
+  const locked = await lockoutRemaining(req, env, email);
+  if (locked) return tooManyRequests(req, locked, 'Too many failed login attempts. Try again later.');
+
   const idx = await getEmailIndex(env, email);
-  if (!idx) return errorJson(req, 401, 'Invalid email or password');
+  if (!idx) {
+    // Count misses on unknown emails too, so lockouts don't reveal which accounts exist.
+    await recordLoginFailure(req, env, email);
+    return errorJson(req, 401, 'Invalid email or password');
+  }
   if (!idx.pwHash) return errorJson(req, 401, 'Use OAuth login');
 
   // Verify password first (avoids leaking "unverified" without correct credentials)
-  const ok = await verifyPassword(password, idx.pwHash, env.PASSWORD_PEPPER);
-  if (!ok) return errorJson(req, 401, 'Invalid email or password');
+  const ok = await verifyPassword(password, idx.pwHash, env);
+  if (!ok) {
+    await recordLoginFailure(req, env, email);
+    await recordSecurityEvent(env, req, idx.userId, { type: 'login', method: 'password', outcome: 'failure', reason: 'bad_password' });
+    return errorJson(req, 401, 'Invalid email or password');
+  }
+  await clearLoginFailures(req, env, email);
+
+  // Upgrade hashes made with an old pepper or weaker KDF settings while we have the plaintext.
+  if (needsRehash(idx.pwHash, env)) {
+    try {
+      await putEmailIndex(env, email, { ...idx, pwHash: await hashPassword(password, env) });
+    } catch {
+      // swallow: the old hash still verifies; we'll try again next login
+    }
+  }
+
+  if (idx.suspended) {
+    await recordSecurityEvent(env, req, idx.userId, { type: 'login', method: 'password', outcome: 'failure', reason: 'suspended' });
+    return errorJson(req, 403, ACCOUNT_SUSPENDED_MSG);
+  }
+
+  if (idx.deletion) {
+    await recordSecurityEvent(env, req, idx.userId, { type: 'login', method: 'password', outcome: 'failure', reason: 'pending_deletion' });
+    return errorJson(req, 403, 'This account is scheduled for deletion. Use the link in your email to restore it.');
+  }
 
   // If unverified: resend verification email (best-effort) and tell the user clearly.
   if (idx.verified === false) {
     try {
-      await resendVerifyEmail(env, req, idx.userId, email);
+      await resendVerifyEmail(env, req, idx.userId, email, safeReturnTo(env, body?.returnTo));
     } catch {
       // swallow; still return the user-facing message
     }
+    await recordSecurityEvent(env, req, idx.userId, { type: 'login', method: 'password', outcome: 'failure', reason: 'unverified' });
     return errorJson(
       req,
       403,
       'Email not verified. We just emailed you a new verification link — check your spam/junk folder.'
     );
   }
-  
-  const token = await issueToken(env, idx.userId);
-  return json(req, 200, { token, userId: idx.userId });
+
+  // Second factor: hand out a short-lived pending token instead of a session.
+  if (mfaEnabled(await getMfa(env, idx.userId))) {
+    const mfaToken = await issueMfaPendingToken(env, idx.userId, email);
+    await recordSecurityEvent(env, req, idx.userId, { type: 'login', method: 'password', outcome: 'mfa_required' });
+    return json(req, 200, { mfaRequired: true, mfaToken });
+  }
+
+  const { token, refreshToken } = await issueToken(env, req, idx);
+  await recordSecurityEvent(env, req, idx.userId, { type: 'login', method: 'password' });
+  return json(req, 200, { token, refreshToken, userId: idx.userId });
 }
 
-async function resendVerifyEmail(env: Env, req: Request, userId: string, email: string): Promise<void> {
+async function resendVerifyEmail(env: Env, req: Request, userId: string, email: string, returnTo?: string): Promise<void> {
   const STEP_MS = 15000;
   const token = await withTimeout(
-    issueActionToken(env, 'email_verify', userId, email, EMAIL_VERIFY_TTL_SECONDS),
+    issueActionToken(env, 'email_verify', userId, email, EMAIL_VERIFY_TTL_SECONDS, { returnTo }),
     STEP_MS,
     'issueActionToken(email_verify)'
   );
@@ -246,7 +254,7 @@ async function handleVerifyEmail(req: Request, env: Env): Promise<Response> {
 
   let p: any;
   try {
-    p = await verifyJwt(token, env.JWT_SECRET, { iss: env.JWT_ISS, aud: env.JWT_AUD });
+    p = await verifyJwt(token, await getKeyring(env), { iss: env.JWT_ISS, aud: env.JWT_AUD });
   } catch (e: any) {
     const msg = typeof e?.message === 'string' ? e.message : 'Invalid token';
     return errorJson(req, 400, msg);
@@ -267,22 +275,29 @@ async function handleVerifyEmail(req: Request, env: Env): Promise<Response> {
 
   await putEmailIndex(env, email, { ...idx, verified: true, verifiedAt: nowIso() });
 
-  const details = (await getDetails(env, sub)) ?? { public: false };
-  await putAccountResource(env, sub, 'details', { ...details, email, requiresVerify: false, verifiedAt: nowIso() });
+  await accountStore(env).write({
+    userId: sub,
+    resource: 'details',
+    op: { kind: 'assign', fields: { email, requiresVerify: false, verifiedAt: nowIso() } }
+  });
+  await recordSecurityEvent(env, req, sub, { type: 'email_verified' }, email);
 
-  // Redirect back to SPA login with a badge param
-  return Response.redirect(`${'https://spirit.codexwilkes.com'}/#/login?verified=1`, 302);
+  // Redirect back to SPA login with a badge param (and where to go once signed in)
+  return Response.redirect(`${'https://spirit.codexwilkes.com'}/#/login?verified=1${returnToParam(env, p?.returnTo)}`, 302);
 }
 
 async function handlePasswordResetRequest(req: Request, env: Env): Promise<Response> {
   const body = await readJson<any>(req);
   const { email } = validateEmailOnly(body);
 
+  const limited = await enforceRateLimit(req, env, 'pw_reset', email);
+  if (limited) return limited;
+
   // Always return ok to avoid enumeration
   const idx = await getEmailIndex(env, email);
 
   // Only email/password accounts get reset links
-  if (idx?.userId && idx.pwHash) {
+  if (idx?.userId && idx.pwHash && !idx.deletion && !idx.suspended) {
     const token = await issueActionToken(env, 'pw_reset', idx.userId, email, PASSWORD_RESET_TTL_SECONDS);
     const resetLink = `${'https://spirit.codexwilkes.com'}/#/reset?token=${encodeURIComponent(token)}`;
 
@@ -310,7 +325,7 @@ async function handlePasswordResetConfirm(req: Request, env: Env): Promise<Respo
 
   let p: any;
   try {
-    p = await verifyJwt(token, env.JWT_SECRET, { iss: env.JWT_ISS, aud: env.JWT_AUD });
+    p = await verifyJwt(token, await getKeyring(env), { iss: env.JWT_ISS, aud: env.JWT_AUD });
   } catch (e: any) {
     const msg = typeof e?.message === 'string' ? e.message : 'Invalid token';
     return errorJson(req, 400, msg);
@@ -323,23 +338,69 @@ async function handlePasswordResetConfirm(req: Request, env: Env): Promise<Respo
 
   if (typ !== 'pw_reset' || !jti || !sub || !email) return errorJson(req, 400, 'Invalid token');
 
+  // Before spending the one-time token, so a rejected password can be retried from the same link.
+  const weak = checkPasswordPolicy(env, password, email);
+  if (weak) return errorJson(req, 400, weak);
+
   const stored = await takeAction(env, 'pw_reset', jti);
   if (!stored || stored !== sub) return errorJson(req, 400, 'Invalid token');
 
   const idx = await getEmailIndex(env, email);
   if (!idx || idx.userId !== sub) return errorJson(req, 400, 'Invalid token');
+  if (idx.suspended) return errorJson(req, 403, ACCOUNT_SUSPENDED_MSG);
+  if (idx.deletion) return errorJson(req, 403, 'This account is scheduled for deletion. Use the link in your email to restore it.');
 
-  const pwHash = await hashPassword(password, env.PASSWORD_PEPPER);
+  const pwHash = await hashPassword(password, env);
+  const tokenGen = (idx.tokenGen ?? 0) + 1;
 
   // If user can reset via email, that's equivalent to mailbox verification.
-  await putEmailIndex(env, email, { ...idx, pwHash, verified: true, verifiedAt: nowIso() });
-
-  const details = (await getDetails(env, sub)) ?? { public: false };
-  await putAccountResource(env, sub, 'details', { ...details, email, requiresVerify: false, verifiedAt: nowIso() });
+  await putEmailIndex(env, email, { ...idx, pwHash, tokenGen, verified: true, verifiedAt: nowIso() });
+  await putUserEmail(env, sub, email);
+  await revokeAllSessions(env, sub);
+
+  await accountStore(env).write({
+    userId: sub,
+    resource: 'details',
+    op: { kind: 'assign', fields: { email, requiresVerify: false, verifiedAt: nowIso() } }
+  });
+  await recordSecurityEvent(env, req, sub, { type: 'password_reset' }, email);
 
   return json(req, 200, { ok: true });
 }
 
+async function handlePasswordChange(req: Request, env: Env): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  if (!auth.account) return errorJson(req, 404, 'Account not found');
+  const { email, idx } = auth.account;
+
+  const body = await readJson<any>(req);
+  const { currentPassword, newPassword } = validatePasswordChange(body);
+
+  if (!idx.pwHash) return errorJson(req, 400, 'No password set for this account');
+
+  const weak = checkPasswordPolicy(env, newPassword, email);
+  if (weak) return errorJson(req, 400, weak);
+
+  const ok = await verifyPassword(currentPassword, idx.pwHash, env);
+  if (!ok) {
+    await recordSecurityEvent(env, req, auth.sub, { type: 'password_change', outcome: 'failure', reason: 'bad_password' });
+    return errorJson(req, 403, 'Current password is incorrect');
+  }
+
+  const pwHash = await hashPassword(newPassword, env);
+  const next = { ...idx, pwHash, tokenGen: (idx.tokenGen ?? 0) + 1 };
+
+  // Bumping the generation retires every outstanding access token; revoking sessions retires refresh tokens.
+  await putEmailIndex(env, email, next);
+  await putUserEmail(env, auth.sub, email);
+  await revokeAllSessions(env, auth.sub);
+  await recordSecurityEvent(env, req, auth.sub, { type: 'password_change' }, email);
+
+  // Keep the device that made the change signed in.
+  const { token, refreshToken } = await issueToken(env, req, next);
+  return json(req, 200, { ok: true, token, refreshToken, userId: auth.sub });
+}
+
 
 type MatchedEmailEvent = {
   eventId: string;
@@ -571,6 +632,8 @@ async function handleEmailPack(req: Request, env: Env): Promise<Response> {
 
       const idx = (await env.AUTH_KV.get(k.name, { type: "json" })) as any;
       if (idx?.verified === false) continue;
+      if (idx?.deletion) continue;
+      if (idx?.suspended) continue;
 
       const userId = typeof idx?.userId === "string" ? idx.userId : "";
       if (!userId || !UUID_RE.test(userId)) continue;
@@ -678,6 +741,67 @@ async function handleEmailPack(req: Request, env: Env): Promise<Response> {
 }
 
 
+function parseSessionRoute(pathname: string): { sessionId: string } | null {
+  const parts = trimTrailingSlashes(pathname).split('/').filter(Boolean);
+  if (parts.length !== 2 || parts[0] !== 'sessions') return null;
+  if (!UUID_RE.test(parts[1])) return null;
+  return { sessionId: parts[1] };
+}
+
+function parseTokenRoute(pathname: string): { id: string } | null {
+  const parts = trimTrailingSlashes(pathname).split('/').filter(Boolean);
+  if (parts.length !== 2 || parts[0] !== 'tokens') return null;
+  if (!UUID_RE.test(parts[1])) return null;
+  return { id: parts[1] };
+}
+
+function parsePasskeyRoute(pathname: string): { id: string } | null {
+  const parts = trimTrailingSlashes(pathname).split('/').filter(Boolean);
+  if (parts.length !== 3 || parts[0] !== 'webauthn' || parts[1] !== 'credentials') return null;
+  if (!/^[A-Za-z0-9_-]{43}$/.test(parts[2])) return null;
+  return { id: parts[2] };
+}
+
+function parseIdentityRoute(pathname: string): { provider: string; link: boolean } | null {
+  const parts = trimTrailingSlashes(pathname).split('/').filter(Boolean);
+  if (parts[0] !== 'identities' || !/^[a-z0-9_-]{1,32}$/.test(parts[1] ?? '')) return null;
+  if (parts.length === 2) return { provider: parts[1], link: false };
+  if (parts.length === 3 && parts[2] === 'link') return { provider: parts[1], link: true };
+  return null;
+}
+
+const ADMIN_ACTIONS: Record<string, AdminAction> = {
+  verify: 'verify',
+  'resend-verification': 'resend_verification',
+  suspend: 'suspend',
+  unsuspend: 'unsuspend'
+};
+
+function parseAdminUserRoute(pathname: string): { userId: string; action: AdminAction | null } | null {
+  const parts = trimTrailingSlashes(pathname).split('/').filter(Boolean);
+  if (parts[0] !== 'admin' || parts[1] !== 'users' || !UUID_RE.test(parts[2] ?? '')) return null;
+  if (parts.length === 3) return { userId: parts[2], action: null };
+  if (parts.length === 4 && ADMIN_ACTIONS[parts[3]]) return { userId: parts[2], action: ADMIN_ACTIONS[parts[3]] };
+  return null;
+}
+
+function parseUserRoute(pathname: string): { userId: string } | null {
+  const parts = trimTrailingSlashes(pathname).split('/').filter(Boolean);
+  if (parts.length !== 2 || parts[0] !== 'u') return null;
+  if (!UUID_RE.test(parts[1])) return null;
+  return { userId: parts[1] };
+}
+
+const ACCOUNT_ACTIONS = ['batch', 'export', 'import'] as const;
+
+/** /u/:uuid/<action> routes that act on the whole account rather than one resource. */
+function parseAccountActionRoute(pathname: string): { userId: string; action: (typeof ACCOUNT_ACTIONS)[number] } | null {
+  const parts = trimTrailingSlashes(pathname).split('/').filter(Boolean);
+  if (parts.length !== 3 || parts[0] !== 'u') return null;
+  if (!UUID_RE.test(parts[1]) || !ACCOUNT_ACTIONS.includes(parts[2] as any)) return null;
+  return { userId: parts[1], action: parts[2] as any };
+}
+
 function parseAccountRoute(pathname: string): { userId: string; resource: (typeof RESOURCES)[number] } | null {
   const clean = trimTrailingSlashes(pathname);
   const parts = clean.split('/').filter(Boolean);
@@ -698,11 +822,13 @@ async function handleAccountGet(
 ): Promise<Response> {
   // Details are NEVER public
   if (resource === 'details') {
-    const sub = await requireAuthSub(req, env);
+    const sub = await requireAuthSub(req, env, 'read:details');
     if (sub !== userId) return errorJson(req, 403, 'Forbidden');
 
     const value = (await getAccountResource(env, userId, 'details')) ?? defaultValue('details');
-    return json(req, 200, value as any);
+    const etag = await etagFor(value);
+    if (matchesIfNoneMatch(req, etag)) return notModified(req, etag);
+    return json(req, 200, value as any, { ETag: etag });
   }
 
   // Other resources can be public if details.public === true
@@ -710,16 +836,18 @@ async function handleAccountGet(
   const isPublic = typeof details?.public === 'boolean' ? details.public : false;
 
   if (!isPublic) {
-    const sub = await requireAuthSub(req, env);
+    const sub = await requireAuthSub(req, env, `read:${resource}`);
     if (sub !== userId) return errorJson(req, 403, 'Forbidden');
   }
 
   const value = (await getAccountResource(env, userId, resource)) ?? defaultValue(resource);
-  return json(req, 200, value as any);
+  const etag = await etagFor(value);
+  if (matchesIfNoneMatch(req, etag)) return notModified(req, etag);
+  return json(req, 200, value as any, { ETag: etag });
 }
 
 async function handleAccountPut(req: Request, env: Env, userId: string, resource: (typeof RESOURCES)[number]): Promise<Response> {
-  const sub = await requireAuthSub(req, env);
+  const sub = await requireAuthSub(req, env, `write:${resource}`);
   if (sub !== userId) return errorJson(req, 403, 'Forbidden');
 
   const body = await readJson<any>(req);
@@ -740,8 +868,9 @@ async function handleAccountPut(req: Request, env: Env, userId: string, resource
       break;
   }
 
-  await putAccountResource(env, userId, resource, value);
-  return json(req, 200, { ok: true });
+  const result = await accountStore(env).write({ userId, resource, op: { kind: 'put', value }, ifMatch: req.headers.get('If-Match') });
+  if (!result.ok) return preconditionFailed(req, result.etag, result.current);
+  return json(req, 200, { ok: true }, { ETag: result.etag });
 }
 
 async function router(req: Request, env: Env): Promise<Response> {
@@ -758,6 +887,11 @@ async function router(req: Request, env: Env): Promise<Response> {
     return json(req, 200, { ok: true });
   }
 
+  if (pathname === '/.well-known/jwks.json') {
+    if (req.method !== 'GET') return errorJson(req, 405, 'Method not allowed');
+    return json(req, 200, publicJwks(await getKeyring(env)), { 'Cache-Control': 'public, max-age=300' });
+  }
+
   if (pathname === '/shortlists') {
     if (req.method !== 'GET') return errorJson(req, 405, 'Method not allowed');
     return handleShortlistsGet(req, env);
@@ -773,6 +907,136 @@ async function router(req: Request, env: Env): Promise<Response> {
     return handleLogin(req, env);
   }
 
+  if (pathname === '/login/magic') {
+    if (req.method !== 'POST') return errorJson(req, 405, 'Method not allowed');
+    return handleMagicLinkRequest(req, env);
+  }
+
+  if (pathname === '/login/magic/callback') {
+    if (req.method !== 'GET') return errorJson(req, 405, 'Method not allowed');
+    return handleMagicLinkCallback(req, env);
+  }
+
+  if (pathname === '/login/mfa') {
+    if (req.method !== 'POST') return errorJson(req, 405, 'Method not allowed');
+    return handleLoginMfa(req, env);
+  }
+
+  if (pathname === '/webauthn/register/options') {
+    if (req.method !== 'POST') return errorJson(req, 405, 'Method not allowed');
+    return handlePasskeyRegisterOptions(req, env);
+  }
+
+  if (pathname === '/webauthn/register/verify') {
+    if (req.method !== 'POST') return errorJson(req, 405, 'Method not allowed');
+    return handlePasskeyRegisterVerify(req, env);
+  }
+
+  if (pathname === '/webauthn/login/options') {
+    if (req.method !== 'POST') return errorJson(req, 405, 'Method not allowed');
+    return handlePasskeyLoginOptions(req, env);
+  }
+
+  if (pathname === '/webauthn/login/verify') {
+    if (req.method !== 'POST') return errorJson(req, 405, 'Method not allowed');
+    return handlePasskeyLoginVerify(req, env);
+  }
+
+  if (pathname === '/webauthn/credentials') {
+    if (req.method !== 'GET') return errorJson(req, 405, 'Method not allowed');
+    return handlePasskeyList(req, env);
+  }
+
+  const passkey = parsePasskeyRoute(pathname);
+  if (passkey) {
+    if (req.method !== 'DELETE') return errorJson(req, 405, 'Method not allowed');
+    return handlePasskeyDelete(req, env, passkey.id);
+  }
+
+  if (pathname === '/me') {
+    if (req.method !== 'GET') return errorJson(req, 405, 'Method not allowed');
+    return handleMe(req, env);
+  }
+
+  if (pathname === '/me/security-events') {
+    if (req.method !== 'GET') return errorJson(req, 405, 'Method not allowed');
+    return handleSecurityEvents(req, env);
+  }
+
+  if (pathname === '/identities') {
+    if (req.method !== 'GET') return errorJson(req, 405, 'Method not allowed');
+    return handleIdentityList(req, env);
+  }
+
+  if (pathname === '/identities/password') {
+    if (req.method === 'POST') return handlePasswordSet(req, env);
+    if (req.method === 'DELETE') return handlePasswordRemove(req, env);
+    return errorJson(req, 405, 'Method not allowed');
+  }
+
+  const identity = parseIdentityRoute(pathname);
+  if (identity) {
+    if (identity.link) {
+      if (req.method !== 'POST') return errorJson(req, 405, 'Method not allowed');
+      return handleIdentityLinkStart(req, env, identity.provider);
+    }
+    if (req.method !== 'DELETE') return errorJson(req, 405, 'Method not allowed');
+    return handleIdentityUnlink(req, env, identity.provider);
+  }
+
+  if (pathname === '/mfa') {
+    if (req.method !== 'GET') return errorJson(req, 405, 'Method not allowed');
+    return handleMfaStatus(req, env);
+  }
+
+  if (pathname === '/mfa/totp/enroll') {
+    if (req.method !== 'POST') return errorJson(req, 405, 'Method not allowed');
+    return handleTotpEnroll(req, env);
+  }
+
+  if (pathname === '/mfa/totp/confirm') {
+    if (req.method !== 'POST') return errorJson(req, 405, 'Method not allowed');
+    return handleTotpConfirm(req, env);
+  }
+
+  if (pathname === '/mfa/totp/disable') {
+    if (req.method !== 'POST') return errorJson(req, 405, 'Method not allowed');
+    return handleTotpDisable(req, env);
+  }
+
+  if (pathname === '/token/refresh') {
+    if (req.method !== 'POST') return errorJson(req, 405, 'Method not allowed');
+    return handleTokenRefresh(req, env);
+  }
+
+  if (pathname === '/sessions') {
+    if (req.method !== 'GET') return errorJson(req, 405, 'Method not allowed');
+    return handleSessionsList(req, env);
+  }
+
+  const sess = parseSessionRoute(pathname);
+  if (sess) {
+    if (req.method !== 'DELETE') return errorJson(req, 405, 'Method not allowed');
+    return handleSessionDelete(req, env, sess.sessionId);
+  }
+
+  if (pathname === '/tokens') {
+    if (req.method === 'GET') return handleTokenList(req, env);
+    if (req.method === 'POST') return handleTokenCreate(req, env);
+    return errorJson(req, 405, 'Method not allowed');
+  }
+
+  const pat = parseTokenRoute(pathname);
+  if (pat) {
+    if (req.method !== 'DELETE') return errorJson(req, 405, 'Method not allowed');
+    return handleTokenDelete(req, env, pat.id);
+  }
+
+  if (pathname === '/logout-all') {
+    if (req.method !== 'POST') return errorJson(req, 405, 'Method not allowed');
+    return handleLogoutAll(req, env);
+  }
+
   if (pathname === '/verify-email') {
     if (req.method !== 'GET') return errorJson(req, 405, 'Method not allowed');
     return handleVerifyEmail(req, env);
@@ -788,11 +1052,73 @@ async function router(req: Request, env: Env): Promise<Response> {
     return handlePasswordResetConfirm(req, env);
   }
 
+  if (pathname === '/password/change') {
+    if (req.method !== 'POST') return errorJson(req, 405, 'Method not allowed');
+    return handlePasswordChange(req, env);
+  }
+
+  if (pathname === '/email/change') {
+    if (req.method !== 'POST') return errorJson(req, 405, 'Method not allowed');
+    return handleEmailChangeRequest(req, env);
+  }
+
+  if (pathname === '/email/change/confirm') {
+    if (req.method !== 'GET') return errorJson(req, 405, 'Method not allowed');
+    return handleEmailChangeConfirm(req, env);
+  }
+
   if (pathname === '/email') {
     if (req.method !== 'POST') return errorJson(req, 405, 'Method not allowed');
     return handleEmailPack(req, env);
   }
 
+  if (pathname === '/admin/users') {
+    if (req.method !== 'GET') return errorJson(req, 405, 'Method not allowed');
+    return handleAdminUserList(req, env);
+  }
+
+  if (pathname === '/admin/audit') {
+    if (req.method !== 'GET') return errorJson(req, 405, 'Method not allowed');
+    return handleAdminAudit(req, env);
+  }
+
+  const adminUser = parseAdminUserRoute(pathname);
+  if (adminUser) {
+    if (adminUser.action) {
+      if (req.method !== 'POST') return errorJson(req, 405, 'Method not allowed');
+      return handleAdminUserAction(req, env, adminUser.userId, adminUser.action);
+    }
+    if (req.method === 'GET') return handleAdminUserGet(req, env, adminUser.userId);
+    if (req.method === 'DELETE') return handleAdminUserAction(req, env, adminUser.userId, 'delete');
+    return errorJson(req, 405, 'Method not allowed');
+  }
+
+  if (pathname === '/account/delete/cancel') {
+    if (req.method !== 'GET') return errorJson(req, 405, 'Method not allowed');
+    return handleAccountDeleteCancel(req, env);
+  }
+
+  const user = parseUserRoute(pathname);
+  if (user) {
+    if (req.method === 'GET') return handleAccountSnapshot(req, env, user.userId);
+    if (req.method === 'DELETE') return handleAccountDelete(req, env, user.userId);
+    return errorJson(req, 405, 'Method not allowed');
+  }
+
+  const acctAction = parseAccountActionRoute(pathname);
+  if (acctAction?.action === 'batch') {
+    if (req.method !== 'POST') return errorJson(req, 405, 'Method not allowed');
+    return handleAccountBatch(req, env, acctAction.userId);
+  }
+  if (acctAction?.action === 'export') {
+    if (req.method !== 'GET') return errorJson(req, 405, 'Method not allowed');
+    return handleAccountExport(req, env, acctAction.userId);
+  }
+  if (acctAction?.action === 'import') {
+    if (req.method !== 'POST') return errorJson(req, 405, 'Method not allowed');
+    return handleAccountImport(req, env, acctAction.userId);
+  }
+
   const acct = parseAccountRoute(pathname);
   if (acct) {
     if (req.method === 'GET') return handleAccountGet(req, env, acct.userId, acct.resource);
@@ -804,6 +1130,8 @@ async function router(req: Request, env: Env): Promise<Response> {
   return errorJson(req, 404, 'Not found');
 }
 
+export { AccountDurableObject } from './account_do';
+
 export default {
   async fetch(req: Request, env: Env): Promise<Response> {
     try {
@@ -818,11 +1146,16 @@ export default {
       const status =
         isKvDailyLimit ? 429 :
         msg.includes('Missing bearer token') || msg.includes('Invalid token') || msg.includes('Token expired') ? 401 :
+        msg === ACCOUNT_SUSPENDED_MSG || msg.startsWith('Token lacks scope') ? 403 :
         msg.includes('Expected application/json') || msg.includes('Invalid') || msg.includes('must') ? 400 :
         500;
     
       return errorJson(req, status, msg);
     }
+  },
+
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(purgeDueDeletions(env));
   }
 };
 
@@ -1,3 +1,4 @@
+import type { Env } from './types';
 import { b64UrlToBytes, b64UrlToJson, bytesToB64Url, jsonToB64Url } from './base64url';
 
 export type JwtPayload = {
@@ -6,11 +7,32 @@ export type JwtPayload = {
   iss: string;
   aud: string | string[];
 
-  typ?: string;   // "email_verify" | "pw_reset"
+  sid?: string;   // session id (access tokens only)
+  gen?: number;   // account token generation (access tokens only)
+  typ?: string;   // action type (see actions.ts) or "oauth_state"; absent on access tokens
   jti?: string;   // nonce for one-time use
   email?: string; // normalized email for convenience
+  returnTo?: string; // post-sign-in destination carried by action tokens (see return_to.ts)
+  bind?: string;     // sha256 of a browser cookie the token is only valid with (oauth_link)
 };
 
+// ---- Keyring ----
+// Tokens carry a `kid` header. New tokens are signed with the primary key; any key in the
+// ring verifies. `JWT_SECRET` is always present as kid "default" (and verifies kid-less legacy tokens).
+
+export const DEFAULT_KID = 'default';
+
+type HsKey = { kid: string; alg: 'HS256'; key: CryptoKey };
+type EsKey = { kid: string; alg: 'ES256'; privateKey?: CryptoKey; publicKey: CryptoKey; publicJwk: JsonWebKey };
+type JwtKey = HsKey | EsKey;
+
+export type Keyring = {
+  primary: JwtKey;
+  byKid: Map<string, JwtKey>;
+};
+
+let cached: { fingerprint: string; ring: Keyring } | null = null;
+
 async function hmacKey(secret: string): Promise<CryptoKey> {
   return crypto.subtle.importKey(
     'raw',
@@ -21,34 +43,113 @@ async function hmacKey(secret: string): Promise<CryptoKey> {
   );
 }
 
-export async function signJwt(payload: JwtPayload, secret: string): Promise<string> {
-  const header = { alg: 'HS256', typ: 'JWT' };
+function parseJsonArray(raw: string | undefined, name: string): any[] {
+  const text = String(raw ?? '').trim();
+  if (!text) return [];
+  let v: unknown;
+  try {
+    v = JSON.parse(text);
+  } catch {
+    throw new Error(`${name} is not a JSON array`);
+  }
+  if (!Array.isArray(v)) throw new Error(`${name} is not a JSON array`);
+  return v;
+}
+
+async function esKey(jwk: any): Promise<EsKey> {
+  const kid = typeof jwk?.kid === 'string' ? jwk.kid.trim() : '';
+  if (!kid || jwk?.kty !== 'EC' || jwk?.crv !== 'P-256') throw new Error('JWT_ES256_KEYS entry is not a P-256 JWK with a kid');
+
+  const d = typeof jwk.d === 'string' ? jwk.d : '';
+  const publicJwk: JsonWebKey = { kty: 'EC', crv: 'P-256', x: jwk.x, y: jwk.y };
+  const alg = { name: 'ECDSA', namedCurve: 'P-256' };
+
+  return {
+    kid,
+    alg: 'ES256',
+    publicJwk,
+    publicKey: await crypto.subtle.importKey('jwk', publicJwk, alg, true, ['verify']),
+    privateKey: d ? await crypto.subtle.importKey('jwk', { ...publicJwk, d }, alg, false, ['sign']) : undefined,
+  };
+}
+
+export async function getKeyring(env: Env): Promise<Keyring> {
+  const fingerprint = JSON.stringify([env.JWT_SECRET, env.JWT_KEYS, env.JWT_ES256_KEYS, env.JWT_PRIMARY_KID]);
+  if (cached?.fingerprint === fingerprint) return cached.ring;
+
+  const byKid = new Map<string, JwtKey>();
+
+  if (env.JWT_SECRET) byKid.set(DEFAULT_KID, { kid: DEFAULT_KID, alg: 'HS256', key: await hmacKey(env.JWT_SECRET) });
+
+  for (const k of parseJsonArray(env.JWT_KEYS, 'JWT_KEYS')) {
+    const kid = typeof k?.kid === 'string' ? k.kid.trim() : '';
+    const secret = typeof k?.secret === 'string' ? k.secret : '';
+    if (!kid || !secret) throw new Error('JWT_KEYS entry is missing kid or secret');
+    byKid.set(kid, { kid, alg: 'HS256', key: await hmacKey(secret) });
+  }
+
+  for (const jwk of parseJsonArray(env.JWT_ES256_KEYS, 'JWT_ES256_KEYS')) {
+    const k = await esKey(jwk);
+    byKid.set(k.kid, k);
+  }
+
+  const primaryKid = (env.JWT_PRIMARY_KID || '').trim() || DEFAULT_KID;
+  const primary = byKid.get(primaryKid);
+  if (!primary) throw new Error(`JWT_PRIMARY_KID "${primaryKid}" is not in the keyring`);
+  if (primary.alg === 'ES256' && !primary.privateKey) throw new Error(`JWT_PRIMARY_KID "${primaryKid}" has no private key`);
+
+  const ring = { primary, byKid };
+  cached = { fingerprint, ring };
+  return ring;
+}
+
+/** Public halves of the ES256 keys, for `/.well-known/jwks.json`. HMAC keys are never published. */
+export function publicJwks(ring: Keyring): { keys: Array<Record<string, string>> } {
+  const keys: Array<Record<string, string>> = [];
+  for (const k of ring.byKid.values()) {
+    if (k.alg !== 'ES256') continue;
+    keys.push({ kty: 'EC', crv: 'P-256', x: String(k.publicJwk.x), y: String(k.publicJwk.y), kid: k.kid, alg: 'ES256', use: 'sig' });
+  }
+  return { keys };
+}
+
+// ---- Sign / verify ----
+
+export async function signJwt(payload: JwtPayload, ring: Keyring): Promise<string> {
+  const k = ring.primary;
+  const header = { alg: k.alg, typ: 'JWT', kid: k.kid };
   const encodedHeader = jsonToB64Url(header);
   const encodedPayload = jsonToB64Url(payload);
-  const data = `${encodedHeader}.${encodedPayload}`;
-  const sig = await crypto.subtle.sign(
-    'HMAC',
-    await hmacKey(secret),
-    new TextEncoder().encode(data)
-  );
-  return `${data}.${bytesToB64Url(new Uint8Array(sig))}`;
+  const data = new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`);
+
+  const sig =
+    k.alg === 'HS256'
+      ? await crypto.subtle.sign('HMAC', k.key, data)
+      : await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, k.privateKey!, data); // raw r||s, as JWS expects
+
+  return `${encodedHeader}.${encodedPayload}.${bytesToB64Url(new Uint8Array(sig))}`;
 }
 
-export async function verifyJwt(token: string, secret: string, opts: { iss: string; aud: string; now?: number }): Promise<JwtPayload> {
+export async function verifyJwt(token: string, ring: Keyring, opts: { iss: string; aud: string; now?: number }): Promise<JwtPayload> {
   const parts = token.split('.');
   if (parts.length !== 3) throw new Error('Invalid token');
 
   const [h, p, s] = parts;
-  const header = b64UrlToJson<{ alg?: string }>(h);
-  if (header.alg !== 'HS256') throw new Error('Invalid token');
-
-  const data = `${h}.${p}`;
-  const ok = await crypto.subtle.verify(
-    'HMAC',
-    await hmacKey(secret),
-    b64UrlToBytes(s),
-    new TextEncoder().encode(data)
-  );
+  let header: { alg?: string; kid?: string };
+  try {
+    header = b64UrlToJson<{ alg?: string; kid?: string }>(h);
+  } catch {
+    throw new Error('Invalid token');
+  }
+
+  const k = ring.byKid.get(typeof header.kid === 'string' ? header.kid : DEFAULT_KID);
+  if (!k || header.alg !== k.alg) throw new Error('Invalid token');
+
+  const data = new TextEncoder().encode(`${h}.${p}`);
+  const ok =
+    k.alg === 'HS256'
+      ? await crypto.subtle.verify('HMAC', k.key, b64UrlToBytes(s), data)
+      : await crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, k.publicKey, b64UrlToBytes(s), data);
   if (!ok) throw new Error('Invalid token');
 
   const payload = b64UrlToJson<JwtPayload>(p);
@@ -0,0 +1,95 @@
+import { ACCOUNT_SUSPENDED_MSG, ALLOWED_ORIGIN, MAGIC_LINK_TTL_SECONDS } from './constants';
+import type { Env } from './types';
+import { errorJson, htmlRedirect, json } from './http';
+import { getKeyring, verifyJwt } from './jwt';
+import { issueActionToken, takeAction } from './actions';
+import { getEmailIndex, getMfa } from './storage';
+import { issueToken } from './sessions';
+import { issueMfaPendingToken, mfaEnabled } from './mfa';
+import { markVerifiedIfNeeded } from './oauth';
+import { enforceRateLimit } from './ratelimit';
+import { normalizeEmail, readJson, validateEmailOnly } from './validate';
+import { sendMailSmtp } from './smtp';
+import { returnToParam, safeReturnTo } from './return_to';
+import { recordSecurityEvent } from './security_events';
+
+export async function handleMagicLinkRequest(req: Request, env: Env): Promise<Response> {
+  const body = await readJson<any>(req);
+  const { email } = validateEmailOnly(body);
+  const returnTo = safeReturnTo(env, body?.returnTo);
+
+  const limited = await enforceRateLimit(req, env, 'magic', email);
+  if (limited) return limited;
+
+  // Always return ok to avoid enumeration
+  const idx = await getEmailIndex(env, email);
+
+  if (idx?.userId && !idx.deletion && !idx.suspended) {
+    const token = await issueActionToken(env, 'magic_login', idx.userId, email, MAGIC_LINK_TTL_SECONDS, { returnTo });
+    const link = new URL('/login/magic/callback', new URL(req.url).origin);
+    link.searchParams.set('token', token);
+
+    try {
+      await sendMailSmtp(env, {
+        to: email,
+        subject: 'Your sign-in link',
+        text:
+          `Use this link to sign in to Spirit Tracker (expires in 15 minutes, works once):\n\n` +
+          `${link.toString()}\n\n` +
+          `If you didn't request this, you can ignore this email.\n`,
+      });
+    } catch {
+      // swallow: still return ok
+    }
+  }
+
+  return json(req, 200, { ok: true });
+}
+
+export async function handleMagicLinkCallback(req: Request, env: Env): Promise<Response> {
+  const url = new URL(req.url);
+  const token = (url.searchParams.get('token') || '').trim();
+  if (!token) return errorJson(req, 400, 'Invalid token');
+
+  let p: any;
+  try {
+    p = await verifyJwt(token, await getKeyring(env), { iss: env.JWT_ISS, aud: env.JWT_AUD });
+  } catch (e: any) {
+    const msg = typeof e?.message === 'string' ? e.message : 'Invalid token';
+    return errorJson(req, 400, msg);
+  }
+
+  const typ = String(p?.typ || '');
+  const jti = String(p?.jti || '');
+  const sub = String(p?.sub || '');
+  const email = normalizeEmail(String(p?.email || ''));
+
+  if (typ !== 'magic_login' || !jti || !sub || !email) return errorJson(req, 400, 'Invalid token');
+
+  const stored = await takeAction(env, 'magic_login', jti);
+  if (!stored || stored !== sub) return errorJson(req, 400, 'Invalid token');
+
+  const existing = await getEmailIndex(env, email);
+  if (!existing || existing.userId !== sub) return errorJson(req, 400, 'Invalid token');
+  if (existing.suspended) return errorJson(req, 403, ACCOUNT_SUSPENDED_MSG);
+  if (existing.deletion) {
+    return errorJson(req, 403, 'This account is scheduled for deletion. Use the link in your email to restore it.');
+  }
+
+  // Clicking the link proves mailbox access, same as OAuth.
+  const idx = await markVerifiedIfNeeded(env, email, existing);
+
+  // The link only proves the mailbox; a second factor still applies.
+  if (mfaEnabled(await getMfa(env, sub))) {
+    const mfaToken = await issueMfaPendingToken(env, sub, email);
+    await recordSecurityEvent(env, req, sub, { type: 'login', method: 'magic_link', outcome: 'mfa_required' }, email);
+    return htmlRedirect(`${ALLOWED_ORIGIN}/#/oauth#mfaToken=${encodeURIComponent(mfaToken)}${returnToParam(env, p?.returnTo)}`);
+  }
+
+  const { token: access, refreshToken } = await issueToken(env, req, idx);
+  await recordSecurityEvent(env, req, sub, { type: 'login', method: 'magic_link' }, email);
+  return htmlRedirect(
+    `${ALLOWED_ORIGIN}/#/oauth#token=${encodeURIComponent(access)}&refreshToken=${encodeURIComponent(refreshToken)}&userId=${encodeURIComponent(sub)}` +
+      returnToParam(env, p?.returnTo)
+  );
+}
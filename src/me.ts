@@ -0,0 +1,55 @@
+import type { AccountSummary, Env } from './types';
+import { errorJson, json } from './http';
+import { requireAuth } from './auth';
+import { mfaEnabled } from './mfa';
+import { getAccountResource, getDetails, getMfa, listIdentities, listPasskeys } from './storage';
+
+function countArray(v: unknown): number {
+  return Array.isArray(v) ? v.filter((x) => typeof x === 'string').length : 0;
+}
+
+function countMap(v: unknown): number {
+  return v && typeof v === 'object' && !Array.isArray(v) ? Object.keys(v).length : 0;
+}
+
+/** Account summary built from the email index and the account resources (details are only used for the rule count). */
+export async function handleMe(req: Request, env: Env): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  if (!auth.account) return errorJson(req, 404, 'Account not found');
+  const { email, idx } = auth.account;
+
+  const [identities, passkeys, mfa, details, favourites, sampled, score] = await Promise.all([
+    listIdentities(env, auth.sub),
+    listPasskeys(env, auth.sub),
+    getMfa(env, auth.sub),
+    getDetails(env, auth.sub),
+    getAccountResource(env, auth.sub, 'favourites'),
+    getAccountResource(env, auth.sub, 'sampled'),
+    getAccountResource(env, auth.sub, 'score')
+  ]);
+
+  const providers = identities.map((i) => i.provider).sort();
+  const rules = Array.isArray(details?.emailNotifications?.rules) ? details.emailNotifications.rules : [];
+
+  const summary: AccountSummary = {
+    userId: auth.sub,
+    email,
+    createdAt: idx.createdAt ?? null,
+    // Accounts created before verification existed have no flag and were never asked to verify.
+    verified: idx.verified !== false,
+    verifiedAt: idx.verifiedAt ?? null,
+    signInMethods: {
+      password: !!idx.pwHash,
+      google: providers.includes('google'),
+      github: providers.includes('github'),
+      providers,
+      passkeys: passkeys.length
+    },
+    mfa: mfaEnabled(mfa),
+    pendingDeletion: idx.deletion ? { requestedAt: idx.deletion.requestedAt, purgeAfter: idx.deletion.purgeAfter } : null,
+    notificationRules: { total: rules.length, enabled: rules.filter((r) => r?.enabled === true).length },
+    resources: { favourites: countArray(favourites), sampled: countArray(sampled), score: countMap(score) }
+  };
+
+  return json(req, 200, summary);
+}
@@ -0,0 +1,185 @@
+import { ACCOUNT_SUSPENDED_MSG, MFA_PENDING_TTL_SECONDS } from './constants';
+import type { Env, MfaState } from './types';
+import { errorJson, json } from './http';
+import { requireAuth } from './auth';
+import { getKeyring, verifyJwt } from './jwt';
+import { issueActionToken, peekAction, takeAction } from './actions';
+import { bytesToB64Url } from './base64url';
+import { getAccountIndex, getMfa, keys, putMfa } from './storage';
+import { issueToken } from './sessions';
+import { recordSecurityEvent } from './security_events';
+import { enforceRateLimit } from './ratelimit';
+import { otpauthUri, randomTotpSecret, verifyTotp } from './totp';
+import { readJson } from './validate';
+
+const ISSUER = 'Spirit Tracker';
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'; // no 0/o, 1/l/i
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+async function sha256B64Url(s: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(s));
+  return bytesToB64Url(new Uint8Array(digest));
+}
+
+function randomRecoveryCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(10));
+  const chars = Array.from(bytes, (b) => RECOVERY_ALPHABET[b % RECOVERY_ALPHABET.length]).join('');
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]+/g, '');
+}
+
+async function newRecoveryCodes(): Promise<{ codes: string[]; hashes: string[] }> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, randomRecoveryCode);
+  const hashes = await Promise.all(codes.map((c) => sha256B64Url(normalizeRecoveryCode(c))));
+  return { codes, hashes };
+}
+
+function readCode(body: any): string {
+  const code = typeof body?.code === 'string' ? body.code.trim() : '';
+  if (!code || code.length > 32) throw new Error('Invalid code');
+  return code;
+}
+
+export function mfaEnabled(state: MfaState | null): boolean {
+  return state?.totp?.confirmed === true;
+}
+
+/**
+ * Accept either a TOTP code or an unused recovery code.
+ * Persists the side effect (last TOTP step / spent recovery code) before returning true.
+ */
+async function checkSecondFactor(env: Env, userId: string, state: MfaState, code: string): Promise<boolean> {
+  const totp = state.totp;
+  if (totp?.confirmed) {
+    const step = await verifyTotp(totp.secret, code);
+    if (step !== null) {
+      if (typeof totp.lastStep === 'number' && step <= totp.lastStep) return false; // replay
+      await putMfa(env, userId, { ...state, totp: { ...totp, lastStep: step } });
+      return true;
+    }
+  }
+
+  const hash = await sha256B64Url(normalizeRecoveryCode(code));
+  const i = state.recoveryHashes.indexOf(hash);
+  if (i === -1) return false;
+
+  await putMfa(env, userId, { ...state, recoveryHashes: state.recoveryHashes.filter((_, j) => j !== i) });
+  return true;
+}
+
+/** Short-lived, one-time token handed out by /login in place of a session when MFA is on. */
+export async function issueMfaPendingToken(env: Env, userId: string, email: string): Promise<string> {
+  return issueActionToken(env, 'mfa_pending', userId, email, MFA_PENDING_TTL_SECONDS);
+}
+
+export async function handleMfaStatus(req: Request, env: Env): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  const state = await getMfa(env, auth.sub);
+  return json(req, 200, {
+    totp: mfaEnabled(state),
+    recoveryCodesRemaining: mfaEnabled(state) ? state!.recoveryHashes.length : 0,
+  });
+}
+
+export async function handleTotpEnroll(req: Request, env: Env): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  if (!auth.account) return errorJson(req, 404, 'Account not found');
+
+  const state = await getMfa(env, auth.sub);
+  if (mfaEnabled(state)) return errorJson(req, 409, 'Two-factor authentication is already enabled');
+
+  // Re-enrolling before confirming simply replaces the pending secret.
+  const secret = randomTotpSecret();
+  await putMfa(env, auth.sub, { totp: { secret, confirmed: false, createdAt: nowIso() }, recoveryHashes: [] });
+
+  return json(req, 200, { secret, otpauthUri: otpauthUri(secret, auth.account.email, ISSUER) });
+}
+
+export async function handleTotpConfirm(req: Request, env: Env): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  const code = readCode(await readJson<any>(req));
+
+  const state = await getMfa(env, auth.sub);
+  if (!state?.totp) return errorJson(req, 400, 'Start enrolment first');
+  if (state.totp.confirmed) return errorJson(req, 409, 'Two-factor authentication is already enabled');
+
+  const step = await verifyTotp(state.totp.secret, code);
+  if (step === null) return errorJson(req, 400, 'Invalid code');
+
+  const { codes, hashes } = await newRecoveryCodes();
+  await putMfa(env, auth.sub, {
+    totp: { ...state.totp, confirmed: true, confirmedAt: nowIso(), lastStep: step },
+    recoveryHashes: hashes,
+  });
+
+  // Shown once; only hashes are kept.
+  return json(req, 200, { ok: true, recoveryCodes: codes });
+}
+
+export async function handleTotpDisable(req: Request, env: Env): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  const code = readCode(await readJson<any>(req));
+
+  const state = await getMfa(env, auth.sub);
+  if (!state || !mfaEnabled(state)) return errorJson(req, 400, 'Two-factor authentication is not enabled');
+
+  const ok = await checkSecondFactor(env, auth.sub, state, code);
+  if (!ok) return errorJson(req, 403, 'Invalid code');
+
+  await env.AUTH_KV.delete(keys.mfa(auth.sub));
+  return json(req, 200, { ok: true });
+}
+
+export async function handleLoginMfa(req: Request, env: Env): Promise<Response> {
+  const body = await readJson<any>(req);
+  const mfaToken = typeof body?.mfaToken === 'string' ? body.mfaToken.trim() : '';
+  if (!mfaToken) return errorJson(req, 401, 'Invalid token');
+  const code = readCode(body);
+
+  let p: any;
+  try {
+    p = await verifyJwt(mfaToken, await getKeyring(env), { iss: env.JWT_ISS, aud: env.JWT_AUD });
+  } catch (e: any) {
+    const msg = typeof e?.message === 'string' ? e.message : 'Invalid token';
+    return errorJson(req, 401, msg);
+  }
+
+  const typ = String(p?.typ || '');
+  const jti = String(p?.jti || '');
+  const sub = String(p?.sub || '');
+  const email = String(p?.email || '');
+  if (typ !== 'mfa_pending' || !jti || !sub) return errorJson(req, 401, 'Invalid token');
+
+  const limited = await enforceRateLimit(req, env, 'mfa', email || sub);
+  if (limited) return limited;
+
+  // Peek, not take: a mistyped code shouldn't force the user back through the password step.
+  const stored = await peekAction(env, 'mfa_pending', jti);
+  if (!stored || stored !== sub) return errorJson(req, 401, 'Invalid token');
+
+  const state = await getMfa(env, sub);
+  if (!state || !mfaEnabled(state)) return errorJson(req, 401, 'Invalid token');
+
+  const ok = await checkSecondFactor(env, sub, state, code);
+  if (!ok) {
+    await recordSecurityEvent(env, req, sub, { type: 'login', method: 'totp', outcome: 'failure', reason: 'bad_code' });
+    return errorJson(req, 401, 'Invalid code');
+  }
+
+  if (!(await takeAction(env, 'mfa_pending', jti))) return errorJson(req, 401, 'Invalid token');
+
+  const account = await getAccountIndex(env, sub);
+  if (!account) return errorJson(req, 401, 'Invalid token');
+  if (account.idx.suspended) return errorJson(req, 403, ACCOUNT_SUSPENDED_MSG);
+
+  const { token, refreshToken } = await issueToken(env, req, account.idx);
+  await recordSecurityEvent(env, req, sub, { type: 'login', method: 'totp' }, account.email);
+  return json(req, 200, { token, refreshToken, userId: sub });
+}
@@ -1,12 +1,57 @@
-import { ALLOWED_ORIGIN, JWT_TTL_SECONDS } from './constants';
-import type { Env } from './types';
-import { errorJson } from './http';
-import { signJwt } from './jwt';
+import { ACCOUNT_SUSPENDED_MSG, ALLOWED_ORIGIN, OAUTH_LINK_TTL_SECONDS } from './constants';
+import type { EmailIndex, Env } from './types';
+import { errorJson, htmlConfirm, htmlError, htmlRedirect } from './http';
 import { bytesToB64Url } from './base64url';
-import { getDetails, getEmailIndex, putAccountResource, putEmailIndex } from './storage';
+import { getKeyring, signJwt, verifyJwt } from './jwt';
+import { takeAction } from './actions';
+import {
+  getAccountIndex,
+  getEmailIndex,
+  getIdentity,
+  getIdentityOwner,
+  getMfa,
+  kvGetJson,
+  putAccountResource,
+  putEmailIndex,
+  putIdentity,
+  putUserEmail
+} from './storage';
 import { normalizeEmail } from './validate';
+import { returnToParam, safeReturnTo } from './return_to';
+import { issueToken } from './sessions';
+import { issueMfaPendingToken, mfaEnabled } from './mfa';
+import { recordSecurityEvent } from './security_events';
+import { accountStore } from './account_store';
+import { countSignInMethods } from './identities';
+import { getOidcProvider, googleOidcProvider, oidcAuthorizeUrl, oidcProfile, type OidcProviderConfig } from './oidc';
 
 const STATE_TTL_SECONDS = 10 * 60;
+const STATE_COOKIE = '__Host-oauth_state';
+const LINK_COOKIE = '__Host-oauth_link';
+const LINK_PENDING_TTL_SECONDS = 10 * 60; // provider return → user confirming on the link page
+
+// "google", "github", or the id of a configured OIDC provider (see oidc.ts).
+export type OauthProvider = string;
+
+const BUILTIN_LABELS: Record<string, string> = { google: 'Google', github: 'GitHub' };
+
+export function isOauthProvider(env: Env, name: string): boolean {
+  return name in BUILTIN_LABELS || getOidcProvider(env, name) !== null;
+}
+
+export function providerLabel(env: Env, provider: OauthProvider): string {
+  return BUILTIN_LABELS[provider] ?? getOidcProvider(env, provider)?.name ?? provider;
+}
+
+// Stored under the random `state` param; `linkUserId` marks a link flow started by a signed-in user.
+type OauthState = { createdAt: string; codeVerifier?: string; nonce?: string; linkUserId?: string; returnTo?: string };
+
+/** Google and configured OIDC providers share the discovery + ID-token path; GitHub is plain OAuth. */
+function oidcConfigFor(env: Env, provider: OauthProvider): OidcProviderConfig | null {
+  return provider === 'google' ? googleOidcProvider(env) : getOidcProvider(env, provider);
+}
+
+type ProviderProfile = { subject: string; email: string };
 
 function nowIso(): string {
   return new Date().toISOString();
@@ -17,101 +62,115 @@ function randState(): string {
   return bytesToB64Url(b);
 }
 
-function stateKey(provider: 'google' | 'github', state: string): string {
+async function sha256B64Url(s: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(s));
+  return bytesToB64Url(new Uint8Array(digest));
+}
+
+// ---- Browser binding ----
+// The state also goes into a signed, short-lived cookie. A callback arriving in a browser
+// that didn't start the flow (login CSRF, a forwarded link) has no matching cookie.
+
+async function stateCookie(env: Env, provider: OauthProvider, state: string): Promise<string> {
+  const exp = Math.floor(Date.now() / 1000) + STATE_TTL_SECONDS;
+  const jwt = await signJwt({ sub: provider, exp, iss: env.JWT_ISS, aud: env.JWT_AUD, typ: 'oauth_state', jti: state }, await getKeyring(env));
+  return `${STATE_COOKIE}=${jwt}; Max-Age=${STATE_TTL_SECONDS}; Path=/; Secure; HttpOnly; SameSite=Lax`;
+}
+
+function clearStateCookie(): string {
+  return `${STATE_COOKIE}=; Max-Age=0; Path=/; Secure; HttpOnly; SameSite=Lax`;
+}
+
+// Link flows are also bound to the browser that asked for them: POST /identities/:provider/link
+// sets this cookie (credentialed XHR from the SPA, so SameSite=None) and the link token carries
+// its hash. A link URL forwarded to someone else is useless without the cookie.
+
+export function linkCookie(nonce: string): string {
+  return `${LINK_COOKIE}=${nonce}; Max-Age=${OAUTH_LINK_TTL_SECONDS}; Path=/; Secure; HttpOnly; SameSite=None`;
+}
+
+function clearLinkCookie(): string {
+  return `${LINK_COOKIE}=; Max-Age=0; Path=/; Secure; HttpOnly; SameSite=None`;
+}
+
+function readCookie(req: Request, name: string): string {
+  for (const part of (req.headers.get('Cookie') || '').split(';')) {
+    const i = part.indexOf('=');
+    if (i > 0 && part.slice(0, i).trim() === name) return part.slice(i + 1).trim();
+  }
+  return '';
+}
+
+async function stateCookieMatches(req: Request, env: Env, provider: OauthProvider, state: string): Promise<boolean> {
+  const raw = readCookie(req, STATE_COOKIE);
+  if (!raw) return false;
+  try {
+    const p = await verifyJwt(raw, await getKeyring(env), { iss: env.JWT_ISS, aud: env.JWT_AUD });
+    return p.typ === 'oauth_state' && p.sub === provider && p.jti === state;
+  } catch {
+    return false;
+  }
+}
+
+function stateKey(provider: OauthProvider, state: string): string {
   return `oauth/state/${provider}/${state}`;
 }
 
-async function putState(env: Env, provider: 'google' | 'github', state: string): Promise<void> {
-  await env.AUTH_KV.put(stateKey(provider, state), nowIso(), { expirationTtl: STATE_TTL_SECONDS });
+async function putState(env: Env, provider: OauthProvider, state: string, data: OauthState): Promise<void> {
+  await env.AUTH_KV.put(stateKey(provider, state), JSON.stringify(data), { expirationTtl: STATE_TTL_SECONDS });
 }
 
-async function takeState(env: Env, provider: 'google' | 'github', state: string): Promise<boolean> {
+async function takeState(env: Env, provider: OauthProvider, state: string): Promise<OauthState | null> {
   const k = stateKey(provider, state);
   const v = await env.AUTH_KV.get(k);
-  if (!v) return false;
+  if (!v) return null;
   await env.AUTH_KV.delete(k);
-  return true;
-}
-
-async function issueToken(env: Env, userId: string): Promise<string> {
-  const exp = Math.floor(Date.now() / 1000) + JWT_TTL_SECONDS;
-  return signJwt({ sub: userId, exp, iss: env.JWT_ISS, aud: env.JWT_AUD }, env.JWT_SECRET);
+  try {
+    return JSON.parse(v) as OauthState;
+  } catch {
+    return { createdAt: v }; // issued before states were JSON
+  }
 }
 
-async function markVerifiedIfNeeded(env: Env, userId: string, email: string): Promise<void> {
-  const idx = await getEmailIndex(env, email);
-  if (!idx) return;
+export async function markVerifiedIfNeeded(env: Env, email: string, idx: EmailIndex): Promise<EmailIndex> {
+  const userId = idx.userId;
 
   // If this email ever had a password signup pending verification, OAuth proves mailbox access.
   if (idx.verified !== true) {
-    await putEmailIndex(env, email, { ...idx, verified: true, verifiedAt: nowIso() });
+    const next = { ...idx, verified: true, verifiedAt: nowIso() };
+    await putEmailIndex(env, email, next);
 
-    const details = (await getDetails(env, userId)) ?? { public: false };
-    const merged = {
-      ...details,
-      email,
-      requiresVerify: false,
-      verifiedAt: nowIso(),
-    };
-    await putAccountResource(env, userId, 'details', merged);
+    await accountStore(env).write({
+      userId,
+      resource: 'details',
+      op: { kind: 'assign', fields: { email, requiresVerify: false, verifiedAt: nowIso() } }
+    });
+    return next;
   }
+  return idx;
 }
 
-async function getOrCreateUserIdByEmail(env: Env, emailRaw: string): Promise<string> {
+async function getOrCreateAccountByEmail(env: Env, emailRaw: string): Promise<EmailIndex> {
   const email = normalizeEmail(emailRaw);
   const existing = await getEmailIndex(env, email);
   if (existing?.userId) {
-    await markVerifiedIfNeeded(env, existing.userId, email);
-    return existing.userId;
+    return markVerifiedIfNeeded(env, email, existing);
   }
 
   const userId = crypto.randomUUID();
-  await putEmailIndex(env, email, { userId, createdAt: nowIso(), verified: true, verifiedAt: nowIso() });
+  const idx: EmailIndex = { userId, createdAt: nowIso(), verified: true, verifiedAt: nowIso() };
+  await putEmailIndex(env, email, idx);
+  await putUserEmail(env, userId, email);
 
   // Default account docs (same as signup), but OAuth does not require verify
   await putAccountResource(env, userId, 'details', { public: false, createdAt: nowIso(), email, requiresVerify: false, verifiedAt: nowIso() });
   await putAccountResource(env, userId, 'favourites', []);
   await putAccountResource(env, userId, 'sampled', []);
   await putAccountResource(env, userId, 'score', {});
-  return userId;
+  return idx;
 }
 
-function htmlRedirect(to: string): Response {
-  const body = `<!doctype html><meta charset="utf-8"><script>location.replace(${JSON.stringify(to)});</script>`;
-  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
-}
-
-async function googleEmail(env: Env, code: string, redirectUri: string): Promise<string> {
-  const tokenRes = await fetch('https://oauth2.googleapis.com/token', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-    body: new URLSearchParams({
-      code,
-      client_id: env.GOOGLE_CLIENT_ID,
-      client_secret: env.GOOGLE_CLIENT_SECRET,
-      redirect_uri: redirectUri,
-      grant_type: 'authorization_code'
-    }).toString()
-  });
-
-  const tokenText = await tokenRes.text();
-  let tokenJson: any = null;
-  try { tokenJson = JSON.parse(tokenText); } catch {}
-  
-  if (!tokenRes.ok || typeof tokenJson?.access_token !== 'string') {
-    throw new Error(`Google token exchange failed (${tokenRes.status}): ${tokenText}`);
-  }
-  
-  const uiRes = await fetch('https://openidconnect.googleapis.com/v1/userinfo', {
-    headers: { Authorization: `Bearer ${tokenJson.access_token}` }
-  });
-  const ui: any = await uiRes.json();
-  if (!uiRes.ok || typeof ui?.email !== 'string') throw new Error('Invalid email');
-  if (ui.email_verified !== true) throw new Error('Email not verified');
-  return ui.email;
-}
-
-async function githubEmail(env: Env, code: string, redirectUri: string, state: string): Promise<string> {
+async function githubProfile(env: Env, code: string, redirectUri: string, state: string, codeVerifier: string): Promise<ProviderProfile> {
   const tokenRes = await fetch('https://github.com/login/oauth/access_token', {
     method: 'POST',
     headers: {
@@ -123,7 +182,8 @@ async function githubEmail(env: Env, code: string, redirectUri: string, state: s
       client_secret: env.GH_CLIENT_SECRET,
       code,
       redirect_uri: redirectUri,
-      state
+      state,
+      code_verifier: codeVerifier
     }).toString()
   });
 
@@ -135,13 +195,17 @@ async function githubEmail(env: Env, code: string, redirectUri: string, state: s
     throw new Error(`GitHub token exchange failed (${tokenRes.status}): ${tokenText}`);
   }
   
-  const emailsRes = await fetch('https://api.github.com/user/emails', {
-    headers: {
-      Authorization: `Bearer ${tokenJson.access_token}`,
-      'User-Agent': 'spirit-tracker-api',
-      'Accept': 'application/vnd.github+json'
-    }
-  });
+  const ghHeaders = {
+    Authorization: `Bearer ${tokenJson.access_token}`,
+    'User-Agent': 'spirit-tracker-api',
+    'Accept': 'application/vnd.github+json'
+  };
+
+  const userRes = await fetch('https://api.github.com/user', { headers: ghHeaders });
+  const user: any = await userRes.json();
+  if (!userRes.ok || (typeof user?.id !== 'number' && typeof user?.id !== 'string')) throw new Error('Invalid profile');
+
+  const emailsRes = await fetch('https://api.github.com/user/emails', { headers: ghHeaders });
 
   const emails: any = await emailsRes.json();
   if (!emailsRes.ok || !Array.isArray(emails)) throw new Error('Invalid email');
@@ -150,7 +214,162 @@ async function githubEmail(env: Env, code: string, redirectUri: string, state: s
   const anyVerified = emails.find((e: any) => e?.verified === true && typeof e?.email === 'string');
   const picked = primaryVerified?.email ?? anyVerified?.email;
   if (!picked) throw new Error('No verified email');
-  return picked;
+  return { subject: String(user.id), email: picked };
+}
+
+/**
+ * The account a provider sign-in belongs to: the linked identity if there is one, otherwise
+ * the account with the same email (created if needed), which then gets the identity recorded.
+ * Returns null when the matching account has explicitly unlinked this provider.
+ */
+async function accountForProfile(req: Request, env: Env, provider: OauthProvider, profile: ProviderProfile): Promise<EmailIndex | null> {
+  const ownerId = await getIdentityOwner(env, provider, profile.subject);
+  if (ownerId) {
+    const account = await getAccountIndex(env, ownerId);
+    if (account) return account.idx;
+  }
+
+  const existing = await getEmailIndex(env, normalizeEmail(profile.email));
+  if (existing?.unlinkedProviders?.includes(provider)) return null;
+
+  const email = normalizeEmail(profile.email);
+  const idx = await getOrCreateAccountByEmail(env, profile.email);
+  if (!(await getIdentity(env, idx.userId, provider))) {
+    // Only a provider joining an account that already signs in some other way is news to the owner.
+    // Accounts created just now, and OAuth accounts from before identities were recorded, are backfilled silently.
+    const notify = !!existing && (await countSignInMethods(env, idx.userId, idx)) > 0;
+    await putIdentity(env, idx.userId, { provider, subject: profile.subject, email, linkedAt: nowIso() });
+    if (notify) await recordSecurityEvent(env, req, idx.userId, { type: 'identity_linked', method: provider }, email);
+  }
+  return idx;
+}
+
+async function finishLink(req: Request, env: Env, provider: OauthProvider, profile: ProviderProfile, userId: string): Promise<Response> {
+  const label = providerLabel(env, provider);
+
+  const account = await getAccountIndex(env, userId);
+  if (!account || account.idx.deletion) return callbackError(400, `Couldn't link ${label}`, 'Your account is no longer available.');
+  if (account.idx.suspended) return callbackError(403, 'Account suspended', ACCOUNT_SUSPENDED_MSG);
+
+  const owner = await getIdentityOwner(env, provider, profile.subject);
+  if (owner && owner !== userId) {
+    return callbackError(409, `Couldn't link ${label}`, `This ${label} account is already linked to another Spirit Tracker account.`);
+  }
+
+  const current = await getIdentity(env, userId, provider);
+  if (current && current.subject !== profile.subject) {
+    return callbackError(409, `Couldn't link ${label}`, `Unlink your current ${label} account first.`);
+  }
+
+  const { idx, email } = account;
+  if (!current) {
+    await putIdentity(env, userId, { provider, subject: profile.subject, email: normalizeEmail(profile.email), linkedAt: nowIso() });
+    await recordSecurityEvent(env, req, userId, { type: 'identity_linked', method: provider }, email);
+  }
+
+  if (idx.unlinkedProviders?.includes(provider)) {
+    await putEmailIndex(env, email, { ...idx, unlinkedProviders: idx.unlinkedProviders.filter((p) => p !== provider) });
+  }
+
+  return htmlRedirect(`${ALLOWED_ORIGIN}/#/account?linked=${provider}`);
+}
+
+// Between the provider callback and the user confirming the link. Keyed by a random id that
+// only appears in the confirmation page served to the browser that finished the flow.
+type PendingLink = { userId: string; subject: string; email: string };
+
+function pendingLinkKey(provider: OauthProvider, id: string): string {
+  return `oauth/link/${provider}/${id}`;
+}
+
+/** Shown on return from the provider: names the account the identity would be attached to. */
+async function confirmLinkPage(env: Env, provider: OauthProvider, profile: ProviderProfile, userId: string): Promise<Response> {
+  const label = providerLabel(env, provider);
+  const account = await getAccountIndex(env, userId);
+  if (!account || account.idx.deletion) return callbackError(400, `Couldn't link ${label}`, 'Your account is no longer available.');
+
+  const id = randState();
+  const pending: PendingLink = { userId, subject: profile.subject, email: normalizeEmail(profile.email) };
+  await env.AUTH_KV.put(pendingLinkKey(provider, id), JSON.stringify(pending), { expirationTtl: LINK_PENDING_TTL_SECONDS });
+
+  return htmlConfirm(
+    `Link ${label} to ${account.email}?`,
+    `The ${label} account ${pending.email} will be able to sign in to the Spirit Tracker account ${account.email}. ` +
+      `If that isn't your account, or you didn't start this from your account page, cancel.`,
+    `/oauth/${provider}/link`,
+    { pending: id },
+    `${ALLOWED_ORIGIN}/#/account`
+  );
+}
+
+async function takePendingLink(env: Env, provider: OauthProvider, id: string): Promise<PendingLink | null> {
+  if (!id) return null;
+  const k = pendingLinkKey(provider, id);
+  const pending = await kvGetJson<PendingLink>(env.AUTH_KV, k);
+  if (pending) await env.AUTH_KV.delete(k);
+  return pending;
+}
+
+function callbackError(status: number, title: string, message: string): Response {
+  const res = htmlError(status, title, message, `${ALLOWED_ORIGIN}/#/login`);
+  res.headers.append('Set-Cookie', clearStateCookie());
+  return res;
+}
+
+/** Redirect to the provider, binding the new state to this browser. `linkUserId` attaches the identity instead of signing in. */
+async function beginFlow(
+  env: Env,
+  origin: string,
+  provider: OauthProvider,
+  opts: { linkUserId?: string; returnTo?: string } = {}
+): Promise<Response> {
+  const redirectUri = `${origin}/oauth/${provider}/callback`;
+  const state = randState();
+  const codeVerifier = randState();
+  const codeChallenge = await sha256B64Url(codeVerifier);
+  const oidc = oidcConfigFor(env, provider);
+
+  const saved: OauthState = { createdAt: nowIso(), codeVerifier };
+  if (oidc) saved.nonce = randState();
+  if (opts.linkUserId) saved.linkUserId = opts.linkUserId;
+  if (opts.returnTo) saved.returnTo = opts.returnTo;
+  await putState(env, provider, state, saved);
+
+  let authUrl: URL;
+  if (oidc) {
+    authUrl = await oidcAuthorizeUrl(oidc, redirectUri, state, saved.nonce!, codeChallenge);
+    if (provider === 'google') authUrl.searchParams.set('prompt', 'select_account');
+  } else {
+    authUrl = new URL('https://github.com/login/oauth/authorize');
+    authUrl.searchParams.set('client_id', env.GITHUB_CLIENT_ID);
+    authUrl.searchParams.set('redirect_uri', redirectUri);
+    authUrl.searchParams.set('scope', 'read:user user:email');
+    authUrl.searchParams.set('state', state);
+    authUrl.searchParams.set('code_challenge', codeChallenge);
+    authUrl.searchParams.set('code_challenge_method', 'S256');
+  }
+
+  return new Response(null, {
+    status: 302,
+    headers: { Location: authUrl.toString(), 'Set-Cookie': await stateCookie(env, provider, state) },
+  });
+}
+
+/**
+ * Resolve a `?link=` token (from POST /identities/:provider/link) to the account it was issued for.
+ * Only in the browser holding the link cookie; checked before the token is spent.
+ */
+async function takeLinkToken(req: Request, env: Env, token: string): Promise<string | null> {
+  try {
+    const p = await verifyJwt(token, await getKeyring(env), { iss: env.JWT_ISS, aud: env.JWT_AUD });
+    if (p.typ !== 'oauth_link' || !p.jti || !p.bind) return null;
+    const nonce = readCookie(req, LINK_COOKIE);
+    if (!nonce || (await sha256B64Url(nonce)) !== p.bind) return null;
+    const stored = await takeAction(env, 'oauth_link', p.jti);
+    return stored && stored === p.sub ? p.sub : null;
+  } catch {
+    return null;
+  }
 }
 
 export async function handleOauth(req: Request, env: Env): Promise<Response | null> {
@@ -159,55 +378,104 @@ export async function handleOauth(req: Request, env: Env): Promise<Response | nu
   // /oauth/:provider/:action
   if (parts.length !== 3 || parts[0] !== 'oauth') return null;
 
-  const provider = parts[1] as 'google' | 'github';
-  const action = parts[2] as 'start' | 'callback';
-  if ((provider !== 'google' && provider !== 'github') || (action !== 'start' && action !== 'callback')) {
+  const provider = parts[1];
+  const action = parts[2] as 'start' | 'callback' | 'link';
+  if (!isOauthProvider(env, provider) || (action !== 'start' && action !== 'callback' && action !== 'link')) {
     return errorJson(req, 404, 'Not found');
   }
 
   const origin = url.origin;
   const redirectUri = `${origin}/oauth/${provider}/callback`;
+  const label = providerLabel(env, provider);
+
+  // The confirmation form on the link page (see confirmLinkPage).
+  if (action === 'link') {
+    if (req.method !== 'POST') return errorJson(req, 405, 'Method not allowed');
+    const form = await req.formData().catch(() => null);
+    const pending = await takePendingLink(env, provider, String(form?.get('pending') ?? ''));
+    if (!pending) return callbackError(400, `Couldn't link ${label}`, 'This link has expired. Start again from your account page.');
+    const res = await finishLink(req, env, provider, { subject: pending.subject, email: pending.email }, pending.userId);
+    res.headers.append('Set-Cookie', clearLinkCookie());
+    return res;
+  }
 
   if (req.method !== 'GET') return errorJson(req, 405, 'Method not allowed');
 
   if (action === 'start') {
-    const state = randState();
-    await putState(env, provider, state);
-
-    if (provider === 'google') {
-      const authUrl = new URL('https://accounts.google.com/o/oauth2/v2/auth');
-      authUrl.searchParams.set('client_id', env.GOOGLE_CLIENT_ID);
-      authUrl.searchParams.set('redirect_uri', redirectUri);
-      authUrl.searchParams.set('response_type', 'code');
-      authUrl.searchParams.set('scope', 'openid email');
-      authUrl.searchParams.set('state', state);
-      authUrl.searchParams.set('prompt', 'select_account');
-      return Response.redirect(authUrl.toString(), 302);
-    } else {
-      const authUrl = new URL('https://github.com/login/oauth/authorize');
-      authUrl.searchParams.set('client_id', env.GITHUB_CLIENT_ID);
-      authUrl.searchParams.set('redirect_uri', redirectUri);
-      authUrl.searchParams.set('scope', 'read:user user:email');
-      authUrl.searchParams.set('state', state);
-      return Response.redirect(authUrl.toString(), 302);
+    const linkToken = url.searchParams.get('link');
+    if (linkToken === null) return beginFlow(env, origin, provider, { returnTo: safeReturnTo(env, url.searchParams.get('returnTo')) });
+
+    const linkUserId = await takeLinkToken(req, env, linkToken);
+    if (!linkUserId) {
+      return callbackError(400, `Couldn't link ${label}`, 'This link has expired or was opened in a different browser. Start again from your account page.');
     }
+    const res = await beginFlow(env, origin, provider, { linkUserId });
+    res.headers.append('Set-Cookie', clearLinkCookie()); // spent with the token
+    return res;
   }
 
   // callback
+  const providerError = url.searchParams.get('error');
+  if (providerError) {
+    const message = providerError === 'access_denied' ? 'Sign-in was cancelled.' : `${label} reported an error: ${providerError}`;
+    return callbackError(400, `Sign-in with ${label} failed`, message);
+  }
+
   const code = url.searchParams.get('code') || '';
   const state = url.searchParams.get('state') || '';
-  if (!code || !state) return errorJson(req, 400, 'Invalid callback');
+  if (!code || !state) return callbackError(400, `Sign-in with ${label} failed`, 'The sign-in response was incomplete. Please try again.');
 
-  const ok = await takeState(env, provider, state);
-  if (!ok) return errorJson(req, 400, 'Invalid state');
+  // Check the browser binding before spending the state, so a forged callback can't burn a real one.
+  if (!(await stateCookieMatches(req, env, provider, state))) {
+    return callbackError(400, `Sign-in with ${label} failed`, 'This sign-in was started in a different browser or has expired. Please start again.');
+  }
+
+  const saved = await takeState(env, provider, state);
+  if (!saved) return callbackError(400, `Sign-in with ${label} failed`, 'This sign-in has expired or was already used. Please start again.');
 
-  const email =
-    provider === 'google'
-      ? await googleEmail(env, code, redirectUri)
-      : await githubEmail(env, code, redirectUri, state);
+  let profile: ProviderProfile;
+  try {
+    const oidc = oidcConfigFor(env, provider);
+    profile = oidc
+      ? await oidcProfile(oidc, code, redirectUri, saved.nonce ?? '', saved.codeVerifier ?? '')
+      : await githubProfile(env, code, redirectUri, state, saved.codeVerifier ?? '');
+  } catch (e: any) {
+    const detail = typeof e?.message === 'string' && !e.message.includes('token exchange failed') ? ` (${e.message})` : '';
+    return callbackError(502, `Sign-in with ${label} failed`, `We couldn't confirm your ${label} account${detail}. Please try again.`);
+  }
 
-  const userId = await getOrCreateUserIdByEmail(env, email);
-  const token = await issueToken(env, userId);
+  let res: Response;
+  if (saved.linkUserId) {
+    res = await confirmLinkPage(env, provider, profile, saved.linkUserId);
+  } else {
+    const idx = await accountForProfile(req, env, provider, profile);
+    if (!idx) {
+      return callbackError(403, `Sign-in with ${label} failed`, `${label} sign-in was removed from this account. Sign in another way and link it again.`);
+    }
+    if (idx.suspended) {
+      await recordSecurityEvent(env, req, idx.userId, { type: 'login', method: provider, outcome: 'failure', reason: 'suspended' });
+      return callbackError(403, 'Account suspended', ACCOUNT_SUSPENDED_MSG);
+    }
+    if (idx.deletion) {
+      await recordSecurityEvent(env, req, idx.userId, { type: 'login', method: provider, outcome: 'failure', reason: 'pending_deletion' });
+      return callbackError(403, 'Account scheduled for deletion', 'This account is scheduled for deletion. Use the link in your email to restore it.');
+    }
+    // A provider only vouches for the email (which it may have matched by), so a second factor still applies.
+    if (mfaEnabled(await getMfa(env, idx.userId))) {
+      const email = (await getAccountIndex(env, idx.userId))?.email ?? normalizeEmail(profile.email);
+      const mfaToken = await issueMfaPendingToken(env, idx.userId, email);
+      await recordSecurityEvent(env, req, idx.userId, { type: 'login', method: provider, outcome: 'mfa_required' });
+      res = htmlRedirect(`${ALLOWED_ORIGIN}/#/oauth#mfaToken=${encodeURIComponent(mfaToken)}${returnToParam(env, saved.returnTo)}`);
+    } else {
+      const { token, refreshToken } = await issueToken(env, req, idx);
+      await recordSecurityEvent(env, req, idx.userId, { type: 'login', method: provider });
+      res = htmlRedirect(
+        `${ALLOWED_ORIGIN}/#/oauth#token=${encodeURIComponent(token)}&refreshToken=${encodeURIComponent(refreshToken)}&userId=${encodeURIComponent(idx.userId)}` +
+          returnToParam(env, saved.returnTo)
+      );
+    }
+  }
 
-  return htmlRedirect(`${ALLOWED_ORIGIN}/#/oauth#token=${encodeURIComponent(token)}&userId=${encodeURIComponent(userId)}`);
+  res.headers.append('Set-Cookie', clearStateCookie());
+  return res;
 }
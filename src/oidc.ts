@@ -0,0 +1,247 @@
+import type { Env } from './types';
+import { b64UrlToBytes, b64UrlToJson } from './base64url';
+
+// Config-driven OpenID Connect providers (Keycloak, Authentik, a local mock issuer, ...).
+// OIDC_PROVIDERS is a JSON array:
+//   [{ "id": "keycloak", "name": "Keycloak", "issuer": "https://sso.example.com/realms/main",
+//      "clientId": "...", "clientSecret": "...", "scope": "openid email" }]
+// Endpoints come from the issuer's discovery document; ID tokens are checked against its JWKS.
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+const RESERVED_IDS = new Set(['google', 'github']);
+
+export type OidcProviderConfig = {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scope: string;
+  issuerAliases?: string[]; // extra accepted `iss` values (Google also uses the scheme-less form)
+};
+
+type Discovery = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+};
+
+type Jwk = JsonWebKey & { kid?: string };
+
+const discoveryCache = new Map<string, { doc: Discovery; fetchedAt: number }>();
+const jwksCache = new Map<string, { keys: Jwk[]; fetchedAt: number }>();
+
+let configCache: { raw: string; providers: Map<string, OidcProviderConfig> } | null = null;
+
+function allowedUrl(raw: string): boolean {
+  try {
+    const u = new URL(raw);
+    // Plain http only for a local mock issuer.
+    return u.protocol === 'https:' || (u.protocol === 'http:' && (u.hostname === 'localhost' || u.hostname === '127.0.0.1'));
+  } catch {
+    return false;
+  }
+}
+
+function oidcProviders(env: Env): Map<string, OidcProviderConfig> {
+  const raw = String(env.OIDC_PROVIDERS ?? '').trim();
+  if (configCache?.raw === raw) return configCache.providers;
+
+  const providers = new Map<string, OidcProviderConfig>();
+  if (raw) {
+    let list: unknown;
+    try {
+      list = JSON.parse(raw);
+    } catch {
+      throw new Error('OIDC_PROVIDERS is not a JSON array');
+    }
+    if (!Array.isArray(list)) throw new Error('OIDC_PROVIDERS is not a JSON array');
+
+    for (const p of list as any[]) {
+      const id = typeof p?.id === 'string' ? p.id.trim() : '';
+      const issuer = typeof p?.issuer === 'string' ? p.issuer.trim().replace(/\/+$/, '') : '';
+      const clientId = typeof p?.clientId === 'string' ? p.clientId : '';
+      const clientSecret = typeof p?.clientSecret === 'string' ? p.clientSecret : '';
+      if (!/^[a-z0-9_-]{1,32}$/.test(id) || RESERVED_IDS.has(id)) throw new Error(`OIDC provider id "${id}" is not allowed`);
+      if (!allowedUrl(issuer) || !clientId) throw new Error(`OIDC provider "${id}" needs an https issuer and a clientId`);
+
+      providers.set(id, {
+        id,
+        name: typeof p?.name === 'string' && p.name.trim() ? p.name.trim() : id,
+        issuer,
+        clientId,
+        clientSecret,
+        scope: typeof p?.scope === 'string' && p.scope.trim() ? p.scope.trim() : 'openid email',
+      });
+    }
+  }
+
+  configCache = { raw, providers };
+  return providers;
+}
+
+export function getOidcProvider(env: Env, id: string): OidcProviderConfig | null {
+  return oidcProviders(env).get(id) ?? null;
+}
+
+async function discover(p: OidcProviderConfig): Promise<Discovery> {
+  const hit = discoveryCache.get(p.issuer);
+  if (hit && Date.now() - hit.fetchedAt < DISCOVERY_TTL_MS) return hit.doc;
+
+  const res = await fetch(`${p.issuer}/.well-known/openid-configuration`, { headers: { Accept: 'application/json' } });
+  const doc: any = res.ok ? await res.json() : null;
+  if (!doc) throw new Error(`OIDC discovery failed for ${p.id} (${res.status})`);
+
+  // The discovery document must describe the issuer we were configured with (OIDC Discovery §4.3).
+  if (String(doc.issuer ?? '').replace(/\/+$/, '') !== p.issuer) throw new Error(`OIDC discovery issuer mismatch for ${p.id}`);
+  for (const k of ['authorization_endpoint', 'token_endpoint', 'jwks_uri'] as const) {
+    if (typeof doc[k] !== 'string' || !allowedUrl(doc[k])) throw new Error(`OIDC discovery for ${p.id} has no usable ${k}`);
+  }
+
+  const out: Discovery = {
+    issuer: doc.issuer,
+    authorization_endpoint: doc.authorization_endpoint,
+    token_endpoint: doc.token_endpoint,
+    jwks_uri: doc.jwks_uri,
+  };
+  discoveryCache.set(p.issuer, { doc: out, fetchedAt: Date.now() });
+  return out;
+}
+
+async function fetchJwks(uri: string, force: boolean): Promise<Jwk[]> {
+  const hit = jwksCache.get(uri);
+  if (!force && hit && Date.now() - hit.fetchedAt < DISCOVERY_TTL_MS) return hit.keys;
+
+  const res = await fetch(uri, { headers: { Accept: 'application/json' } });
+  const body: any = res.ok ? await res.json() : null;
+  if (!Array.isArray(body?.keys)) throw new Error(`Could not fetch JWKS (${res.status})`);
+
+  jwksCache.set(uri, { keys: body.keys, fetchedAt: Date.now() });
+  return body.keys;
+}
+
+async function findJwk(uri: string, kid: string | undefined, kty: string): Promise<Jwk | null> {
+  const pick = (keys: Jwk[]) =>
+    keys.find((k) => k.kty === kty && (kid ? k.kid === kid : true) && (k.use === undefined || k.use === 'sig')) ?? null;
+
+  const cached = pick(await fetchJwks(uri, false));
+  if (cached) return cached;
+  // Unknown kid: the issuer may have rotated keys since we cached them.
+  return pick(await fetchJwks(uri, true));
+}
+
+async function verifyIdTokenSignature(idToken: string, jwksUri: string): Promise<any> {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) throw new Error('Invalid ID token');
+  const [h, p, s] = parts;
+
+  let header: { alg?: string; kid?: string };
+  try {
+    header = b64UrlToJson<{ alg?: string; kid?: string }>(h);
+  } catch {
+    throw new Error('Invalid ID token');
+  }
+
+  const data = new TextEncoder().encode(`${h}.${p}`);
+  const sig = b64UrlToBytes(s);
+  let ok = false;
+
+  if (header.alg === 'RS256') {
+    const jwk = await findJwk(jwksUri, header.kid, 'RSA');
+    if (!jwk) throw new Error('Invalid ID token: unknown signing key');
+    const key = await crypto.subtle.importKey('jwk', { kty: 'RSA', n: jwk.n, e: jwk.e }, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+    ok = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, sig, data);
+  } else if (header.alg === 'ES256') {
+    const jwk = await findJwk(jwksUri, header.kid, 'EC');
+    if (!jwk || jwk.crv !== 'P-256') throw new Error('Invalid ID token: unknown signing key');
+    const key = await crypto.subtle.importKey('jwk', { kty: 'EC', crv: 'P-256', x: jwk.x, y: jwk.y }, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+    ok = await crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, sig, data);
+  } else {
+    throw new Error('Invalid ID token: unsupported alg');
+  }
+
+  if (!ok) throw new Error('Invalid ID token signature');
+  return b64UrlToJson<any>(p);
+}
+
+/** Google, driven through the same discovery + ID-token path as configured providers. */
+export function googleOidcProvider(env: Env): OidcProviderConfig {
+  return {
+    id: 'google',
+    name: 'Google',
+    issuer: 'https://accounts.google.com',
+    clientId: env.GOOGLE_CLIENT_ID,
+    clientSecret: env.GOOGLE_CLIENT_SECRET,
+    scope: 'openid email',
+    issuerAliases: ['accounts.google.com'],
+  };
+}
+
+export async function oidcAuthorizeUrl(
+  p: OidcProviderConfig,
+  redirectUri: string,
+  state: string,
+  nonce: string,
+  codeChallenge: string
+): Promise<URL> {
+  const d = await discover(p);
+  const url = new URL(d.authorization_endpoint);
+  url.searchParams.set('client_id', p.clientId);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('scope', p.scope);
+  url.searchParams.set('state', state);
+  url.searchParams.set('nonce', nonce);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url;
+}
+
+/** Exchange the code and validate the ID token; returns the issuer's subject and verified email. */
+export async function oidcProfile(
+  p: OidcProviderConfig,
+  code: string,
+  redirectUri: string,
+  nonce: string,
+  codeVerifier: string
+): Promise<{ subject: string; email: string }> {
+  const d = await discover(p);
+
+  const tokenRes = await fetch(d.token_endpoint, {
+    method: 'POST',
+    headers: {
+      'Accept': 'application/json',
+      'Content-Type': 'application/x-www-form-urlencoded',
+      // client_secret_basic: the spec default for token_endpoint_auth_method
+      Authorization: `Basic ${btoa(`${encodeURIComponent(p.clientId)}:${encodeURIComponent(p.clientSecret)}`)}`,
+    },
+    body: new URLSearchParams({ grant_type: 'authorization_code', code, redirect_uri: redirectUri, code_verifier: codeVerifier }).toString(),
+  });
+
+  const tokenText = await tokenRes.text();
+  let tokenJson: any = null;
+  try { tokenJson = JSON.parse(tokenText); } catch {}
+
+  if (!tokenRes.ok || typeof tokenJson?.id_token !== 'string') {
+    throw new Error(`${p.name} token exchange failed (${tokenRes.status}): ${tokenText}`);
+  }
+
+  const claims = await verifyIdTokenSignature(tokenJson.id_token, d.jwks_uri);
+  const now = Math.floor(Date.now() / 1000);
+
+  if (claims.iss !== d.issuer && !p.issuerAliases?.includes(claims.iss)) throw new Error('Invalid ID token: iss');
+  const aud = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!aud.includes(p.clientId)) throw new Error('Invalid ID token: aud');
+  if (aud.length > 1 && claims.azp !== p.clientId) throw new Error('Invalid ID token: azp');
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS <= now) throw new Error('Invalid ID token: expired');
+  if (typeof claims.iat === 'number' && claims.iat - CLOCK_SKEW_SECONDS > now) throw new Error('Invalid ID token: iat');
+  if (!nonce || claims.nonce !== nonce) throw new Error('Invalid ID token: nonce');
+  if (typeof claims.sub !== 'string' || !claims.sub) throw new Error('Invalid ID token: sub');
+
+  if (typeof claims.email !== 'string' || !claims.email.includes('@')) throw new Error('Invalid email');
+  if (claims.email_verified !== true) throw new Error('Email not verified');
+
+  return { subject: claims.sub, email: claims.email };
+}
@@ -1,14 +1,80 @@
+import type { Env } from './types';
 import { b64UrlToBytes, bytesToB64Url } from './base64url';
 
 const HASH_BYTES = 32; // 256-bit
 const SALT_BYTES = 16;
-const ITERATIONS = 100_000;
 
-async function pbkdf2(input: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+// Workers' WebCrypto refuses PBKDF2 above 100k iterations; raise cost via SHA-512 instead.
+const MIN_ITERATIONS = 10_000;
+const MAX_ITERATIONS = 100_000;
+const DEFAULT_ITERATIONS = 100_000;
+const DEFAULT_PEPPER_ID = '1';
+
+type KdfHash = 'sha256' | 'sha512';
+
+const WEBCRYPTO_HASH: Record<KdfHash, string> = { sha256: 'SHA-256', sha512: 'SHA-512' };
+const HASH_RANK: Record<KdfHash, number> = { sha256: 0, sha512: 1 };
+
+type PasswordConfig = {
+  hash: KdfHash;
+  iterations: number;
+  pepperId: string;
+  peppers: Map<string, string>; // id -> pepper, current first
+};
+
+/*
+ * Stored format: pbkdf2$<hash>$<iterations>$<salt>$<derived>$<pepperId>
+ * Legacy hashes have no pepper id (5 parts) and are tried against every known pepper.
+ */
+type ParsedHash = { hash: KdfHash; iterations: number; salt: Uint8Array; derived: Uint8Array; pepperId: string | null };
+
+function passwordConfig(env: Env): PasswordConfig {
+  const hash: KdfHash = env.PASSWORD_KDF_HASH === 'sha512' ? 'sha512' : 'sha256';
+
+  const n = Number(env.PASSWORD_KDF_ITERATIONS);
+  const iterations = Number.isInteger(n) && n > 0 ? Math.min(Math.max(n, MIN_ITERATIONS), MAX_ITERATIONS) : DEFAULT_ITERATIONS;
+
+  const pepperId = (env.PASSWORD_PEPPER_ID || '').trim() || DEFAULT_PEPPER_ID;
+  const peppers = new Map<string, string>([[pepperId, env.PASSWORD_PEPPER]]);
+
+  // PASSWORD_PEPPERS_OLD: {"<id>": "<pepper>", ...} — retired peppers still accepted on verify
+  let old: unknown = null;
+  try {
+    old = JSON.parse(env.PASSWORD_PEPPERS_OLD || 'null');
+  } catch {
+    old = null;
+  }
+  if (old && typeof old === 'object' && !Array.isArray(old)) {
+    for (const [id, pepper] of Object.entries(old as Record<string, unknown>)) {
+      if (typeof pepper === 'string' && !peppers.has(id)) peppers.set(id, pepper);
+    }
+  }
+
+  return { hash, iterations, pepperId, peppers };
+}
+
+function parseHash(stored: string): ParsedHash | null {
+  const parts = stored.split('$');
+  if (parts.length !== 5 && parts.length !== 6) return null;
+  const [scheme, hashName, iterStr, saltB64, hashB64, pepperId] = parts;
+  if (scheme !== 'pbkdf2' || (hashName !== 'sha256' && hashName !== 'sha512')) return null;
+  const iterations = Number(iterStr);
+  if (!Number.isFinite(iterations) || iterations < MIN_ITERATIONS || iterations > MAX_ITERATIONS) return null;
+
+  return {
+    hash: hashName,
+    iterations,
+    salt: b64UrlToBytes(saltB64),
+    derived: b64UrlToBytes(hashB64),
+    pepperId: parts.length === 6 ? pepperId : null,
+  };
+}
+
+async function pbkdf2(input: string, salt: Uint8Array, iterations: number, hash: KdfHash): Promise<Uint8Array> {
   const enc = new TextEncoder();
   const keyMaterial = await crypto.subtle.importKey('raw', enc.encode(input), 'PBKDF2', false, ['deriveBits']);
   const bits = await crypto.subtle.deriveBits(
-    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    { name: 'PBKDF2', salt, iterations, hash: WEBCRYPTO_HASH[hash] },
     keyMaterial,
     HASH_BYTES * 8
   );
@@ -22,22 +88,41 @@ function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
   return diff === 0;
 }
 
-export async function hashPassword(password: string, pepper: string): Promise<string> {
+export async function hashPassword(password: string, env: Env): Promise<string> {
+  const cfg = passwordConfig(env);
   const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
-  const hash = await pbkdf2(password + pepper, salt, ITERATIONS);
-  return `pbkdf2$sha256$${ITERATIONS}$${bytesToB64Url(salt)}$${bytesToB64Url(hash)}`;
+  const derived = await pbkdf2(password + env.PASSWORD_PEPPER, salt, cfg.iterations, cfg.hash);
+  return `pbkdf2$${cfg.hash}$${cfg.iterations}$${bytesToB64Url(salt)}$${bytesToB64Url(derived)}$${cfg.pepperId}`;
 }
 
-export async function verifyPassword(password: string, stored: string, pepper: string): Promise<boolean> {
-  const parts = stored.split('$');
-  if (parts.length !== 5) return false;
-  const [scheme, hashName, iterStr, saltB64, hashB64] = parts;
-  if (scheme !== 'pbkdf2' || hashName !== 'sha256') return false;
-  const iterations = Number(iterStr);
-  if (!Number.isFinite(iterations) || iterations < 10_000) return false;
+export async function verifyPassword(password: string, stored: string, env: Env): Promise<boolean> {
+  const parsed = parseHash(stored);
+  if (!parsed) return false;
+  const { peppers } = passwordConfig(env);
+
+  let candidates: string[];
+  if (parsed.pepperId !== null) {
+    const pepper = peppers.get(parsed.pepperId);
+    if (pepper === undefined) return false;
+    candidates = [pepper];
+  } else {
+    candidates = Array.from(peppers.values());
+  }
+
+  for (const pepper of candidates) {
+    const actual = await pbkdf2(password + pepper, parsed.salt, parsed.iterations, parsed.hash);
+    if (timingSafeEqual(actual, parsed.derived)) return true;
+  }
+  return false;
+}
+
+/** True when a (verified) hash falls short of the configured target and should be rewritten. */
+export function needsRehash(stored: string, env: Env): boolean {
+  const parsed = parseHash(stored);
+  if (!parsed) return false;
+  const cfg = passwordConfig(env);
 
-  const salt = b64UrlToBytes(saltB64);
-  const expected = b64UrlToBytes(hashB64);
-  const actual = await pbkdf2(password + pepper, salt, iterations);
-  return timingSafeEqual(actual, expected);
+  if (parsed.pepperId !== cfg.pepperId) return true;
+  if (HASH_RANK[parsed.hash] !== HASH_RANK[cfg.hash]) return HASH_RANK[parsed.hash] < HASH_RANK[cfg.hash];
+  return parsed.iterations < cfg.iterations;
 }
@@ -0,0 +1,102 @@
+import type { Env } from './types';
+import { COMMON_PASSWORDS } from './common_passwords';
+
+// Password policy for new passwords (signup, reset, change). Login never applies it, so
+// tightening the thresholds doesn't lock out existing accounts.
+
+const DEFAULT_MIN_LENGTH = 10;
+const DEFAULT_MIN_SCORE = 2;
+const ABSOLUTE_MIN_LENGTH = 8;
+const MAX_LENGTH = 256;
+
+type PolicyConfig = { minLength: number; minScore: number };
+
+type PasswordStrength = {
+  score: 0 | 1 | 2 | 3 | 4;
+  bits: number; // rough guessing entropy
+};
+
+function intEnv(raw: unknown, fallback: number): number {
+  const n = Number(raw);
+  return raw !== undefined && raw !== '' && Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+}
+
+function policyConfig(env: Env): PolicyConfig {
+  return {
+    minLength: Math.max(ABSOLUTE_MIN_LENGTH, intEnv(env.PASSWORD_MIN_LENGTH, DEFAULT_MIN_LENGTH)),
+    minScore: Math.min(4, intEnv(env.PASSWORD_MIN_SCORE, DEFAULT_MIN_SCORE)),
+  };
+}
+
+const LEET: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i' };
+
+function deleet(s: string): string {
+  return s.replace(/[013457@$!]/g, (c) => LEET[c]);
+}
+
+function isCommon(password: string): boolean {
+  const lower = password.toLowerCase();
+  const stripped = lower.replace(/[^a-z]+$/, '');
+  for (const candidate of [lower, stripped, deleet(lower), deleet(stripped)]) {
+    if (candidate && COMMON_PASSWORDS.has(candidate)) return true;
+  }
+  return false;
+}
+
+/** Characters that merely continue a run ("aaaa", "abcd", "4321") add almost nothing. */
+function effectiveLength(password: string): number {
+  const cps = Array.from(password, (c) => c.codePointAt(0)!);
+  let len = cps.length ? 1 : 0;
+  for (let i = 1; i < cps.length; i++) {
+    const d = cps[i] - cps[i - 1];
+    len += d === 0 || d === 1 || d === -1 ? 0.25 : 1;
+  }
+  return len;
+}
+
+function passwordStrength(password: string): PasswordStrength {
+  let pool = 0;
+  if (/[a-z]/.test(password)) pool += 26;
+  if (/[A-Z]/.test(password)) pool += 26;
+  if (/[0-9]/.test(password)) pool += 10;
+  if (/[^A-Za-z0-9]/.test(password)) pool += 33;
+
+  let bits = pool ? effectiveLength(password) * Math.log2(pool) : 0;
+  if (isCommon(password)) bits = Math.min(bits, 10);
+
+  const score = bits < 28 ? 0 : bits < 40 ? 1 : bits < 55 ? 2 : bits < 70 ? 3 : 4;
+  return { score, bits: Math.round(bits) };
+}
+
+/** Letters and digits only, so "john.smith" also catches "JohnSmith" and "john_smith". */
+function alnum(s: string): string {
+  return s.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+function emailLocalPart(email: string): string {
+  return alnum(email.split('@')[0].split('+')[0]);
+}
+
+/**
+ * Returns a message saying what to fix, or null if the password is acceptable.
+ * Callers turn a non-null result into a 400.
+ */
+export function checkPasswordPolicy(env: Env, password: string, email?: string): string | null {
+  const cfg = policyConfig(env);
+
+  if (password.length < cfg.minLength) return `Password must be at least ${cfg.minLength} characters`;
+  if (password.length > MAX_LENGTH) return `Password must be at most ${MAX_LENGTH} characters`;
+
+  if (isCommon(password)) return 'That password is too common. Pick something others are unlikely to use.';
+
+  const local = email ? emailLocalPart(email) : '';
+  if (local.length >= 3 && alnum(password).includes(local)) {
+    return 'Password must not contain your email address';
+  }
+
+  if (passwordStrength(password).score < cfg.minScore) {
+    return 'Password is too easy to guess. Use a longer passphrase or mix in numbers and symbols.';
+  }
+
+  return null;
+}
@@ -0,0 +1,70 @@
+import type { Env, PersonalAccessToken } from './types';
+import { errorJson, json } from './http';
+import { PERSONAL_TOKEN_PREFIX, recentlySignedIn, requireAuth, sha256B64Url } from './auth';
+import { bytesToB64Url } from './base64url';
+import { getPersonalToken, keys, listPersonalTokens, putPersonalToken } from './storage';
+import { readJson, validatePersonalTokenCreate } from './validate';
+import { recordSecurityEvent } from './security_events';
+
+// Personal access tokens for scripts: created, listed and revoked with a session JWT,
+// then usable on /u/:uuid/:resource within their scopes (see requireAuthSub).
+
+const MAX_TOKENS = 20;
+
+function publicView(t: PersonalAccessToken) {
+  return {
+    id: t.id,
+    name: t.name,
+    scopes: t.scopes,
+    createdAt: t.createdAt,
+    expiresAt: t.expiresAt ?? null,
+    lastUsedAt: t.lastUsedAt ?? null
+  };
+}
+
+export async function handleTokenList(req: Request, env: Env): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  const tokens = await listPersonalTokens(env, auth.sub);
+  tokens.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  return json(req, 200, tokens.map(publicView));
+}
+
+/** The secret is returned once, here; afterwards only its hash exists. */
+export async function handleTokenCreate(req: Request, env: Env): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  if (!auth.account) return errorJson(req, 404, 'Account not found');
+
+  const { name, scopes, expiresInDays } = validatePersonalTokenCreate(await readJson<any>(req));
+
+  if (!recentlySignedIn(auth)) return errorJson(req, 403, 'Please sign in again to create an access token');
+  if ((await listPersonalTokens(env, auth.sub)).length >= MAX_TOKENS) {
+    return errorJson(req, 409, `You already have ${MAX_TOKENS} access tokens. Revoke one first.`);
+  }
+
+  const id = crypto.randomUUID();
+  const secret = bytesToB64Url(crypto.getRandomValues(new Uint8Array(32)));
+  const now = Date.now();
+
+  const pat: PersonalAccessToken = {
+    id,
+    userId: auth.sub,
+    name,
+    scopes,
+    hash: await sha256B64Url(secret),
+    createdAt: new Date(now).toISOString()
+  };
+  if (expiresInDays) pat.expiresAt = new Date(now + expiresInDays * 24 * 60 * 60 * 1000).toISOString();
+  await putPersonalToken(env, pat);
+  await recordSecurityEvent(env, req, auth.sub, { type: 'token_created', method: name }, auth.account.email);
+
+  return json(req, 200, { ...publicView(pat), token: `${PERSONAL_TOKEN_PREFIX}${auth.sub}.${id}.${secret}` });
+}
+
+export async function handleTokenDelete(req: Request, env: Env, id: string): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  const pat = await getPersonalToken(env, auth.sub, id);
+  if (!pat) return errorJson(req, 404, 'Not found');
+  await env.AUTH_KV.delete(keys.personalToken(auth.sub, id));
+  await recordSecurityEvent(env, req, auth.sub, { type: 'token_revoked', method: pat.name }, auth.account?.email);
+  return json(req, 200, { ok: true });
+}
@@ -0,0 +1,156 @@
+import type { Env } from './types';
+import { errorJson } from './http';
+
+// KV-backed rate limiting. Counters are approximate: KV is eventually consistent and
+// a burst landing in several regions at once can slip a few requests past the limit.
+
+export type RateLimitRoute = 'login' | 'signup' | 'pw_reset' | 'mfa' | 'magic' | 'email_change';
+
+type Rule = { limit: number; windowSeconds: number };
+
+const DEFAULTS: Record<RateLimitRoute, { ip: string; email: string }> = {
+  login: { ip: '30/300', email: '10/300' },
+  signup: { ip: '5/3600', email: '3/3600' },
+  pw_reset: { ip: '10/3600', email: '3/3600' },
+  mfa: { ip: '30/300', email: '10/300' },
+  magic: { ip: '10/3600', email: '3/900' },
+  email_change: { ip: '10/3600', email: '3/3600' },
+};
+
+const ENV_KEYS: Record<RateLimitRoute, { ip: keyof Env; email: keyof Env }> = {
+  login: { ip: 'RATE_LIMIT_LOGIN_IP', email: 'RATE_LIMIT_LOGIN_EMAIL' },
+  signup: { ip: 'RATE_LIMIT_SIGNUP_IP', email: 'RATE_LIMIT_SIGNUP_EMAIL' },
+  pw_reset: { ip: 'RATE_LIMIT_PW_RESET_IP', email: 'RATE_LIMIT_PW_RESET_EMAIL' },
+  mfa: { ip: 'RATE_LIMIT_MFA_IP', email: 'RATE_LIMIT_MFA_EMAIL' },
+  magic: { ip: 'RATE_LIMIT_MAGIC_IP', email: 'RATE_LIMIT_MAGIC_EMAIL' },
+  email_change: { ip: 'RATE_LIMIT_EMAIL_CHANGE_IP', email: 'RATE_LIMIT_EMAIL_CHANGE_EMAIL' },
+};
+
+const KV_MIN_TTL = 60;
+
+function parseRule(raw: unknown, fallback: string): Rule {
+  const m = String(raw ?? '').trim().match(/^(\d+)\s*\/\s*(\d+)$/) ?? fallback.match(/^(\d+)\/(\d+)$/)!;
+  return { limit: Number(m[1]), windowSeconds: Math.max(1, Number(m[2])) };
+}
+
+function intEnv(raw: unknown, fallback: number): number {
+  const n = Number(raw);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+export function clientIp(req: Request): string {
+  return (req.headers.get('CF-Connecting-IP') || '').trim() || 'unknown';
+}
+
+export function tooManyRequests(req: Request, retryAfterSeconds: number, message = 'Too many requests. Try again later.'): Response {
+  return errorJson(req, 429, message, { 'Retry-After': String(Math.max(1, Math.ceil(retryAfterSeconds))) });
+}
+
+/**
+ * Sliding-window counter, approximated with two fixed buckets: the previous bucket's
+ * count is weighted by how much of it still overlaps the window.
+ * Returns seconds to wait when over the limit, otherwise records the hit and returns 0.
+ */
+async function hit(env: Env, scope: string, rule: Rule): Promise<number> {
+  if (rule.limit <= 0) return 0;
+
+  const nowSec = Date.now() / 1000;
+  const bucket = Math.floor(nowSec / rule.windowSeconds);
+  const elapsed = nowSec - bucket * rule.windowSeconds;
+
+  const curKey = `rl/${scope}/${bucket}`;
+  const prevKey = `rl/${scope}/${bucket - 1}`;
+  const cur = Number((await env.AUTH_KV.get(curKey)) || 0);
+  const prev = Number((await env.AUTH_KV.get(prevKey)) || 0);
+
+  const prevLeft = prev * (1 - elapsed / rule.windowSeconds);
+  const weighted = prevLeft + cur;
+  if (weighted >= rule.limit) {
+    // Wait until enough of the previous bucket has slid out (or, failing that, for the next bucket).
+    const needed = weighted - rule.limit + 1;
+    const retry = prev > 0 && needed <= prevLeft ? (needed / prev) * rule.windowSeconds : rule.windowSeconds - elapsed;
+    return Math.max(1, retry);
+  }
+
+  await env.AUTH_KV.put(curKey, String(cur + 1), { expirationTtl: Math.max(KV_MIN_TTL, rule.windowSeconds * 2) });
+  return 0;
+}
+
+/**
+ * Enforce the per-IP and (when known) per-email limits for one route.
+ * Returns a 429 response to send back, or null to carry on.
+ */
+export async function enforceRateLimit(req: Request, env: Env, route: RateLimitRoute, email?: string): Promise<Response | null> {
+  const ipRule = parseRule(env[ENV_KEYS[route].ip], DEFAULTS[route].ip);
+  const ipWait = await hit(env, `${route}/ip/${clientIp(req)}`, ipRule);
+  if (ipWait) return tooManyRequests(req, ipWait);
+
+  if (email) {
+    const emailRule = parseRule(env[ENV_KEYS[route].email], DEFAULTS[route].email);
+    const emailWait = await hit(env, `${route}/email/${email}`, emailRule);
+    if (emailWait) return tooManyRequests(req, emailWait);
+  }
+
+  return null;
+}
+
+// ---- Progressive lockout after failed logins ----
+// Keyed on email + client network, so someone guessing from elsewhere can't lock the owner out;
+// the per-email login limit above still slows a spread-out attack without a long lock.
+
+type LockoutState = { failures: number; lockedUntil: number }; // lockedUntil: epoch ms
+
+/** IPv4 as is; IPv6 cut to its /64, which one client can usually rotate through freely. */
+function ipPrefix(ip: string): string {
+  if (!ip.includes(':')) return ip;
+  const [head, tail] = ip.toLowerCase().split('::');
+  const front = head ? head.split(':') : [];
+  const back = tail ? tail.split(':') : [];
+  const groups = tail === undefined ? front : [...front, ...Array(Math.max(0, 8 - front.length - back.length)).fill('0'), ...back];
+  return `${groups.slice(0, 4).join(':')}::/64`;
+}
+
+function lockoutKey(req: Request, email: string): string {
+  return `rl/lockout/${email}/${ipPrefix(clientIp(req))}`;
+}
+
+function lockoutConfig(env: Env): { threshold: number; baseSeconds: number; maxSeconds: number } {
+  return {
+    threshold: intEnv(env.LOGIN_LOCKOUT_THRESHOLD, 5),
+    baseSeconds: intEnv(env.LOGIN_LOCKOUT_BASE_SECONDS, 60),
+    maxSeconds: intEnv(env.LOGIN_LOCKOUT_MAX_SECONDS, 60 * 60),
+  };
+}
+
+/** Seconds until this client may try the email again, or 0 if it isn't locked. */
+export async function lockoutRemaining(req: Request, env: Env, email: string): Promise<number> {
+  const state = (await env.AUTH_KV.get(lockoutKey(req, email), { type: 'json' })) as LockoutState | null;
+  if (!state) return 0;
+  const ms = state.lockedUntil - Date.now();
+  return ms > 0 ? ms / 1000 : 0;
+}
+
+export async function recordLoginFailure(req: Request, env: Env, email: string): Promise<void> {
+  const cfg = lockoutConfig(env);
+  const k = lockoutKey(req, email);
+  const prev = (await env.AUTH_KV.get(k, { type: 'json' })) as LockoutState | null;
+  const failures = (prev?.failures ?? 0) + 1;
+
+  let lockedUntil = 0;
+  if (failures >= cfg.threshold) {
+    // threshold → base, +1 → 2×base, +2 → 4×base, ... capped.
+    const seconds = Math.min(cfg.maxSeconds, cfg.baseSeconds * 2 ** (failures - cfg.threshold));
+    lockedUntil = Date.now() + seconds * 1000;
+  }
+
+  // Forget the streak a while after the longest possible lockout.
+  await env.AUTH_KV.put(k, JSON.stringify({ failures, lockedUntil } satisfies LockoutState), {
+    expirationTtl: Math.max(KV_MIN_TTL, cfg.maxSeconds * 2),
+  });
+}
+
+export async function clearLoginFailures(req: Request, env: Env, email: string): Promise<void> {
+  // Read first: successful logins are common, and KV deletes count against the write quota.
+  const k = lockoutKey(req, email);
+  if (await env.AUTH_KV.get(k)) await env.AUTH_KV.delete(k);
+}
@@ -0,0 +1,76 @@
+import { ALLOWED_ORIGIN } from './constants';
+import type { Env } from './types';
+
+// Where to send the user once sign-in (or email verification) is done.
+// Accepted forms: "#/item/123", "/#/item/123" or "https://<allowed origin>/#/item/123".
+// The hash route must match RETURN_TO_ROUTES; anything else is dropped, never an error,
+// so a bad link still signs the user in and lands on the default page.
+
+const DEFAULT_ROUTES = ['/', '/item/', '/shortlist', '/u/', '/account'];
+const MAX_LEN = 512;
+
+function csv(raw: string | undefined): string[] {
+  return String(raw ?? '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function allowedOrigins(env: Env): Set<string> {
+  return new Set([ALLOWED_ORIGIN, ...csv(env.RETURN_TO_ORIGINS)]);
+}
+
+/**
+ * "/" allows only the home route. Entries ending in "/" are prefixes ("/item/" → "/item/123");
+ * others match exactly or with a further path/query ("/account" → "/account?tab=security").
+ */
+function routeAllowed(env: Env, route: string): boolean {
+  const routes = csv(env.RETURN_TO_ROUTES);
+  for (const r of routes.length ? routes : DEFAULT_ROUTES) {
+    if (r === '/') {
+      if (route === '/') return true;
+    } else if (r.endsWith('/')) {
+      if (route.startsWith(r) && route.length > r.length) return true;
+    } else if (route === r || route.startsWith(`${r}/`) || route.startsWith(`${r}?`)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/** Normalize to an absolute SPA URL, or undefined if the value isn't an allowed destination. */
+export function safeReturnTo(env: Env, raw: unknown): string | undefined {
+  if (typeof raw !== 'string') return undefined;
+  const value = raw.trim();
+  if (!value || value.length > MAX_LEN || /[\u0000-\u001F\u007F\\]/.test(value)) return undefined;
+
+  let origin = ALLOWED_ORIGIN;
+  let hash: string;
+
+  if (value.startsWith('#')) {
+    hash = value;
+  } else if (value.startsWith('/#')) {
+    hash = value.slice(1);
+  } else {
+    let u: URL;
+    try {
+      u = new URL(value);
+    } catch {
+      return undefined;
+    }
+    if (!allowedOrigins(env).has(u.origin) || (u.pathname !== '/' && u.pathname !== '') || u.search) return undefined;
+    origin = u.origin;
+    hash = u.hash;
+  }
+
+  const route = hash.slice(1);
+  if (!route.startsWith('/') || route.startsWith('//') || !routeAllowed(env, route)) return undefined;
+
+  return `${origin}/#${route}`;
+}
+
+/** `&returnTo=...` for the SPA redirect fragments/queries, re-validated since it may come from a stored token. */
+export function returnToParam(env: Env, returnTo: unknown): string {
+  const safe = safeReturnTo(env, returnTo);
+  return safe ? `&returnTo=${encodeURIComponent(safe)}` : '';
+}
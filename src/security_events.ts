@@ -0,0 +1,147 @@
+import { ALLOWED_ORIGIN, SECURITY_EVENT_RETENTION_SECONDS } from './constants';
+import type { Env, SecurityEvent, SecurityEventType } from './types';
+import { errorJson, json } from './http';
+import { requireAuth } from './auth';
+import { clientIp } from './ratelimit';
+import { userAgentOf } from './sessions';
+import { getAccountIndex, keys, kvGetJson } from './storage';
+import { sendMailSmtp } from './smtp';
+
+// Append-only security log per account: auth/events/<uuid>/<YYYY-MM>, one JSON array per month.
+// Each bucket keeps its newest MAX_PER_BUCKET entries and expires SECURITY_EVENT_RETENTION_SECONDS
+// after its last write, so the log stays bounded without a cleanup job.
+// KV has no append, so two events landing at the same instant can drop one; it's a log, not a ledger.
+
+const MAX_PER_BUCKET = 200;
+const DEFAULT_PAGE = 50;
+const MAX_PAGE = 200;
+
+export type SecurityEventInput = {
+  type: SecurityEventType;
+  method?: string;
+  outcome?: SecurityEvent['outcome']; // default "success"
+  reason?: string;
+};
+
+/** Successful events worth an email to the account owner, with the line used in that email. */
+const NOTICES: Partial<Record<SecurityEventType, string>> = {
+  password_change: 'Your password was changed',
+  password_reset: 'Your password was reset',
+  password_set: 'A password was added to your account',
+  password_removed: 'Your password was removed',
+  identity_linked: 'A new sign-in provider was linked to your account',
+  identity_unlinked: 'A sign-in provider was removed from your account',
+  token_created: 'A personal access token was created',
+  token_revoked: 'A personal access token was revoked',
+  passkey_added: 'A passkey was added to your account',
+  passkey_removed: 'A passkey was removed from your account'
+};
+
+function monthOf(iso: string): string {
+  return iso.slice(0, 7);
+}
+
+async function appendEvent(env: Env, userId: string, event: SecurityEvent): Promise<void> {
+  const k = keys.securityEvents(userId, monthOf(event.at));
+  const bucket = (await kvGetJson<SecurityEvent[]>(env.AUTH_KV, k)) ?? [];
+  bucket.push(event);
+  await env.AUTH_KV.put(k, JSON.stringify(bucket.slice(-MAX_PER_BUCKET)), { expirationTtl: SECURITY_EVENT_RETENTION_SECONDS });
+}
+
+async function sendNotice(env: Env, userId: string, event: SecurityEvent, headline: string, email?: string): Promise<void> {
+  const to = email ?? (await getAccountIndex(env, userId))?.email;
+  if (!to) return;
+
+  const what = event.method ? `${headline} (${event.method}).` : `${headline}.`;
+  await sendMailSmtp(env, {
+    to,
+    subject: `Security notice: ${headline.toLowerCase()}`,
+    text:
+      `${what}\n\n` +
+      `When: ${event.at}\n` +
+      `IP address: ${event.ip}\n` +
+      `Device: ${event.userAgent || 'unknown'}\n\n` +
+      `If this was you, there's nothing to do.\n\n` +
+      `If it wasn't, reset your password and review your sign-in methods and sessions:\n\n` +
+      `${ALLOWED_ORIGIN}/#/account\n`
+  });
+}
+
+/**
+ * Record an event for `userId` and email a notice for sensitive changes. Best-effort: a failed
+ * log write or notice never fails the request that triggered it. Pass `email` when the caller
+ * already has it to skip the lookup.
+ */
+export async function recordSecurityEvent(
+  env: Env,
+  req: Request,
+  userId: string,
+  input: SecurityEventInput,
+  email?: string
+): Promise<void> {
+  const event: SecurityEvent = {
+    id: crypto.randomUUID(),
+    at: new Date().toISOString(),
+    type: input.type,
+    outcome: input.outcome ?? 'success',
+    ip: clientIp(req),
+    userAgent: userAgentOf(req)
+  };
+  if (input.method) event.method = input.method;
+  if (input.reason) event.reason = input.reason;
+
+  try {
+    await appendEvent(env, userId, event);
+  } catch {
+    // swallow: losing a log line beats failing a sign-in
+  }
+
+  const headline = NOTICES[event.type];
+  if (headline && event.outcome === 'success') {
+    try {
+      await sendNotice(env, userId, event, headline, email);
+    } catch {
+      // swallow
+    }
+  }
+}
+
+/** GET /me/security-events?limit=&before=<ISO time>: newest first; `next` is the `before` for the following page. */
+export async function handleSecurityEvents(req: Request, env: Env): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  if (!auth.account) return errorJson(req, 404, 'Account not found');
+
+  const url = new URL(req.url);
+  const limitRaw = url.searchParams.get('limit');
+  const limit = limitRaw === null ? DEFAULT_PAGE : Number(limitRaw);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE) return errorJson(req, 400, `Invalid limit (1-${MAX_PAGE})`);
+
+  const beforeRaw = url.searchParams.get('before');
+  if (beforeRaw !== null && !Number.isFinite(Date.parse(beforeRaw))) return errorJson(req, 400, 'Invalid before');
+  const before = beforeRaw === null ? null : new Date(beforeRaw).toISOString();
+
+  const months: string[] = [];
+  let cursor: string | undefined = undefined;
+  do {
+    const res: KVNamespaceListResult<unknown, string> = await env.AUTH_KV.list({ prefix: keys.securityEventsPrefix(auth.sub), cursor, limit: 1000 });
+    cursor = res.list_complete ? undefined : res.cursor;
+    for (const k of res.keys) months.push(k.name.slice(keys.securityEventsPrefix(auth.sub).length));
+  } while (cursor);
+  months.sort().reverse();
+
+  const out: SecurityEvent[] = [];
+  for (const month of months) {
+    if (before !== null && month > monthOf(before)) continue;
+    const bucket = (await kvGetJson<SecurityEvent[]>(env.AUTH_KV, keys.securityEvents(auth.sub, month))) ?? [];
+    for (let i = bucket.length - 1; i >= 0; i--) {
+      if (before !== null && bucket[i].at >= before) continue;
+      out.push(bucket[i]);
+      if (out.length > limit) break;
+    }
+    if (out.length > limit) break;
+  }
+
+  const page = out.slice(0, limit);
+  const next = out.length > limit ? page[page.length - 1].at : null;
+  return json(req, 200, { events: page, next });
+}
@@ -0,0 +1,148 @@
+import { ACCESS_TOKEN_TTL_SECONDS, ACCOUNT_SUSPENDED_MSG, UUID_RE } from './constants';
+import type { EmailIndex, Env, Session } from './types';
+import { errorJson, json } from './http';
+import { requireAuth } from './auth';
+import { getKeyring, signJwt } from './jwt';
+import { bytesToB64Url } from './base64url';
+import { deleteSession, getAccountIndex, getSession, keys, kvDeletePrefix, listSessions, putSession } from './storage';
+import { readJson } from './validate';
+
+// Refresh tokens are opaque: "<userId>.<sessionId>.<secret>". Only a hash of the secret is stored.
+
+const MAX_USER_AGENT = 256;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function randSecret(): string {
+  return bytesToB64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+async function sha256B64Url(s: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(s));
+  return bytesToB64Url(new Uint8Array(digest));
+}
+
+export function userAgentOf(req: Request): string {
+  return (req.headers.get('User-Agent') || '').slice(0, MAX_USER_AGENT);
+}
+
+function parseRefreshToken(raw: string): { userId: string; sessionId: string; secret: string } | null {
+  const parts = raw.split('.');
+  if (parts.length !== 3) return null;
+  const [userId, sessionId, secret] = parts;
+  if (!UUID_RE.test(userId) || !UUID_RE.test(sessionId) || !secret) return null;
+  return { userId, sessionId, secret };
+}
+
+async function issueAccessToken(env: Env, userId: string, sessionId: string, gen: number): Promise<string> {
+  const exp = Math.floor(Date.now() / 1000) + ACCESS_TOKEN_TTL_SECONDS;
+  return signJwt({ sub: userId, exp, iss: env.JWT_ISS, aud: env.JWT_AUD, sid: sessionId, gen }, await getKeyring(env));
+}
+
+export type IssuedTokens = { token: string; refreshToken: string };
+
+/** Start a new session (one per login/device) and return its first access + refresh token pair. */
+export async function issueToken(env: Env, req: Request, idx: EmailIndex): Promise<IssuedTokens> {
+  const userId = idx.userId;
+  const id = crypto.randomUUID();
+  const secret = randSecret();
+  const now = nowIso();
+
+  await putSession(env, {
+    id,
+    userId,
+    refreshHash: await sha256B64Url(secret),
+    userAgent: userAgentOf(req),
+    createdAt: now,
+    lastUsedAt: now
+  });
+
+  return {
+    token: await issueAccessToken(env, userId, id, idx.tokenGen ?? 0),
+    refreshToken: `${userId}.${id}.${secret}`
+  };
+}
+
+/**
+ * Signs the account out everywhere: every session and every personal access token.
+ * Used by logout-all, password reset/change, suspension and deletion. Returns the session count.
+ */
+export async function revokeAllSessions(env: Env, userId: string): Promise<number> {
+  const sessions = await listSessions(env, userId);
+  for (const s of sessions) await deleteSession(env, userId, s.id);
+  await kvDeletePrefix(env.AUTH_KV, keys.personalTokenPrefix(userId));
+  return sessions.length;
+}
+
+export async function handleTokenRefresh(req: Request, env: Env): Promise<Response> {
+  const body = await readJson<any>(req);
+  const raw = typeof body?.refreshToken === 'string' ? body.refreshToken.trim() : '';
+  const parsed = parseRefreshToken(raw);
+  if (!parsed) return errorJson(req, 401, 'Invalid refresh token');
+
+  const session = await getSession(env, parsed.userId, parsed.sessionId);
+  if (!session) return errorJson(req, 401, 'Invalid refresh token');
+
+  const presented = await sha256B64Url(parsed.secret);
+  if (presented !== session.refreshHash) {
+    // A rotated-out token coming back means it leaked: kill the whole session.
+    if (presented === session.prevRefreshHash) await deleteSession(env, session.userId, session.id);
+    return errorJson(req, 401, 'Invalid refresh token');
+  }
+
+  // Suspending revokes sessions, but one refreshed mid-suspension would otherwise survive.
+  const account = await getAccountIndex(env, session.userId);
+  if (account?.idx.suspended) {
+    await deleteSession(env, session.userId, session.id);
+    return errorJson(req, 403, ACCOUNT_SUSPENDED_MSG);
+  }
+
+  const secret = randSecret();
+  const next: Session = {
+    ...session,
+    refreshHash: await sha256B64Url(secret),
+    prevRefreshHash: session.refreshHash,
+    lastUsedAt: nowIso()
+  };
+  await putSession(env, next);
+
+  const token = await issueAccessToken(env, session.userId, session.id, account?.idx.tokenGen ?? 0);
+  return json(req, 200, { token, refreshToken: `${session.userId}.${session.id}.${secret}`, userId: session.userId });
+}
+
+export async function handleSessionsList(req: Request, env: Env): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  const sessions = await listSessions(env, auth.sub);
+
+  sessions.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+
+  return json(
+    req,
+    200,
+    sessions.map((s) => ({
+      id: s.id,
+      userAgent: s.userAgent,
+      createdAt: s.createdAt,
+      lastUsedAt: s.lastUsedAt,
+      current: s.id === auth.sid
+    }))
+  );
+}
+
+export async function handleSessionDelete(req: Request, env: Env, sessionId: string): Promise<Response> {
+  const auth = await requireAuth(req, env);
+
+  const session = await getSession(env, auth.sub, sessionId);
+  if (!session) return errorJson(req, 404, 'Not found');
+
+  await deleteSession(env, auth.sub, sessionId);
+  return json(req, 200, { ok: true });
+}
+
+export async function handleLogoutAll(req: Request, env: Env): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  const revoked = await revokeAllSessions(env, auth.sub);
+  return json(req, 200, { ok: true, revoked });
+}
@@ -1,11 +1,45 @@
-import type { EmailIndex, Details, Env, Score } from './types';
-import type { Resource } from './constants';
+import type { EmailIndex, Details, Env, Identity, MfaState, Passkey, PersonalAccessToken, Score, Session } from './types';
+import { REFRESH_TOKEN_TTL_SECONDS, type Resource } from './constants';
+import { normalizeEmail } from './validate';
 
 export const keys = {
   emailIndex: (email: string) => `auth/email/${email}`,
-  acct: (userId: string, resource: Resource) => `acct/${userId}/${resource}`
+  userEmail: (userId: string) => `auth/user/${userId}`,
+  acct: (userId: string, resource: Resource) => `acct/${userId}/${resource}`,
+  session: (userId: string, sessionId: string) => `auth/session/${userId}/${sessionId}`,
+  sessionPrefix: (userId: string) => `auth/session/${userId}/`,
+  pendingDeletion: (userId: string) => `auth/deletion/${userId}`,
+  mfa: (userId: string) => `auth/mfa/${userId}`,
+  passkey: (userId: string, id: string) => `auth/passkey/${userId}/${id}`,
+  passkeyPrefix: (userId: string) => `auth/passkey/${userId}/`,
+  passkeyOwner: (id: string) => `auth/passkey-cred/${id}`,
+  identity: (userId: string, provider: string) => `auth/identity/${userId}/${provider}`,
+  identityPrefix: (userId: string) => `auth/identity/${userId}/`,
+  identityOwner: (provider: string, subject: string) => `auth/identity-sub/${provider}/${encodeURIComponent(subject)}`,
+  securityEvents: (userId: string, month: string) => `auth/events/${userId}/${month}`,
+  securityEventsPrefix: (userId: string) => `auth/events/${userId}/`,
+  personalToken: (userId: string, id: string) => `auth/pat/${userId}/${id}`,
+  personalTokenPrefix: (userId: string) => `auth/pat/${userId}/`,
+  adminAudit: (id: string) => `admin/audit/${id}`
 };
 
+/** Every key prefix that holds data for one user. Account purges delete all of these. */
+export function userKeyPrefixes(userId: string): string[] {
+  return [
+    `acct/${userId}/`,
+    keys.sessionPrefix(userId),
+    keys.passkeyPrefix(userId),
+    keys.identityPrefix(userId),
+    keys.securityEventsPrefix(userId),
+    keys.personalTokenPrefix(userId)
+  ];
+}
+
+/** Single per-user keys (not prefixes) removed on purge. */
+export function userKeys(userId: string): string[] {
+  return [keys.userEmail(userId), keys.pendingDeletion(userId), keys.mfa(userId)];
+}
+
 export async function kvGetJson<T>(kv: KVNamespace, key: string): Promise<T | null> {
   const v = await kv.get(key, { type: 'json' });
   return (v as T | null) ?? null;
@@ -15,6 +49,21 @@ export async function kvPutJson(kv: KVNamespace, key: string, value: unknown): P
   await kv.put(key, JSON.stringify(value));
 }
 
+export async function kvDeletePrefix(kv: KVNamespace, prefix: string): Promise<number> {
+  let deleted = 0;
+  let cursor: string | undefined = undefined;
+  do {
+    const res: KVNamespaceListResult<unknown, string> = await kv.list({ prefix, cursor, limit: 1000 });
+    cursor = res.list_complete ? undefined : res.cursor;
+
+    for (const k of res.keys) {
+      await kv.delete(k.name);
+      deleted++;
+    }
+  } while (cursor);
+  return deleted;
+}
+
 export async function getEmailIndex(env: Env, email: string): Promise<EmailIndex | null> {
   return kvGetJson<EmailIndex>(env.AUTH_KV, keys.emailIndex(email));
 }
@@ -23,6 +72,27 @@ export async function putEmailIndex(env: Env, email: string, idx: EmailIndex): P
   return kvPutJson(env.AUTH_KV, keys.emailIndex(email), idx);
 }
 
+export async function putUserEmail(env: Env, userId: string, email: string): Promise<void> {
+  await env.AUTH_KV.put(keys.userEmail(userId), email);
+}
+
+/**
+ * Resolve a userId back to its email index entry.
+ * Older accounts have no `auth/user/<uuid>` entry yet, so fall back to `details.email`.
+ */
+export async function getAccountIndex(env: Env, userId: string): Promise<{ email: string; idx: EmailIndex } | null> {
+  let email = await env.AUTH_KV.get(keys.userEmail(userId));
+  if (!email) {
+    const details = await getDetails(env, userId);
+    email = typeof details?.email === 'string' ? normalizeEmail(details.email) : null;
+  }
+  if (!email) return null;
+
+  const idx = await getEmailIndex(env, email);
+  if (!idx || idx.userId !== userId) return null;
+  return { email, idx };
+}
+
 export async function getDetails(env: Env, userId: string): Promise<Details | null> {
   return kvGetJson<Details>(env.AUTH_KV, keys.acct(userId, 'details'));
 }
@@ -35,6 +105,130 @@ export async function getAccountResource(env: Env, userId: string, resource: Res
   return kvGetJson<unknown>(env.AUTH_KV, keys.acct(userId, resource));
 }
 
+export async function getSession(env: Env, userId: string, sessionId: string): Promise<Session | null> {
+  return kvGetJson<Session>(env.AUTH_KV, keys.session(userId, sessionId));
+}
+
+export async function putSession(env: Env, session: Session): Promise<void> {
+  // Sliding expiry: every write pushes the TTL out again.
+  await env.AUTH_KV.put(keys.session(session.userId, session.id), JSON.stringify(session), {
+    expirationTtl: REFRESH_TOKEN_TTL_SECONDS
+  });
+}
+
+export async function deleteSession(env: Env, userId: string, sessionId: string): Promise<void> {
+  await env.AUTH_KV.delete(keys.session(userId, sessionId));
+}
+
+export async function listSessions(env: Env, userId: string): Promise<Session[]> {
+  const out: Session[] = [];
+  let cursor: string | undefined = undefined;
+  do {
+    const res: KVNamespaceListResult<unknown, string> = await env.AUTH_KV.list({ prefix: keys.sessionPrefix(userId), cursor, limit: 1000 });
+    cursor = res.list_complete ? undefined : res.cursor;
+
+    for (const k of res.keys) {
+      const s = await kvGetJson<Session>(env.AUTH_KV, k.name);
+      if (s) out.push(s);
+    }
+  } while (cursor);
+  return out;
+}
+
+export async function getMfa(env: Env, userId: string): Promise<MfaState | null> {
+  return kvGetJson<MfaState>(env.AUTH_KV, keys.mfa(userId));
+}
+
+export async function putMfa(env: Env, userId: string, state: MfaState): Promise<void> {
+  return kvPutJson(env.AUTH_KV, keys.mfa(userId), state);
+}
+
+export async function getPasskey(env: Env, userId: string, id: string): Promise<Passkey | null> {
+  return kvGetJson<Passkey>(env.AUTH_KV, keys.passkey(userId, id));
+}
+
+export async function putPasskey(env: Env, userId: string, passkey: Passkey): Promise<void> {
+  return kvPutJson(env.AUTH_KV, keys.passkey(userId, passkey.id), passkey);
+}
+
+export async function listPasskeys(env: Env, userId: string): Promise<Passkey[]> {
+  const out: Passkey[] = [];
+  let cursor: string | undefined = undefined;
+  do {
+    const res: KVNamespaceListResult<unknown, string> = await env.AUTH_KV.list({ prefix: keys.passkeyPrefix(userId), cursor, limit: 1000 });
+    cursor = res.list_complete ? undefined : res.cursor;
+
+    for (const k of res.keys) {
+      const p = await kvGetJson<Passkey>(env.AUTH_KV, k.name);
+      if (p) out.push(p);
+    }
+  } while (cursor);
+  return out;
+}
+
+export async function getIdentityOwner(env: Env, provider: string, subject: string): Promise<string | null> {
+  return env.AUTH_KV.get(keys.identityOwner(provider, subject));
+}
+
+export async function getIdentity(env: Env, userId: string, provider: string): Promise<Identity | null> {
+  return kvGetJson<Identity>(env.AUTH_KV, keys.identity(userId, provider));
+}
+
+/** One identity per provider per account; the owner lookup is written alongside. */
+export async function putIdentity(env: Env, userId: string, identity: Identity): Promise<void> {
+  await kvPutJson(env.AUTH_KV, keys.identity(userId, identity.provider), identity);
+  await env.AUTH_KV.put(keys.identityOwner(identity.provider, identity.subject), userId);
+}
+
+export async function deleteIdentity(env: Env, userId: string, identity: Identity): Promise<void> {
+  await env.AUTH_KV.delete(keys.identityOwner(identity.provider, identity.subject));
+  await env.AUTH_KV.delete(keys.identity(userId, identity.provider));
+}
+
+export async function listIdentities(env: Env, userId: string): Promise<Identity[]> {
+  const out: Identity[] = [];
+  let cursor: string | undefined = undefined;
+  do {
+    const res: KVNamespaceListResult<unknown, string> = await env.AUTH_KV.list({ prefix: keys.identityPrefix(userId), cursor, limit: 1000 });
+    cursor = res.list_complete ? undefined : res.cursor;
+
+    for (const k of res.keys) {
+      const i = await kvGetJson<Identity>(env.AUTH_KV, k.name);
+      if (i) out.push(i);
+    }
+  } while (cursor);
+  return out;
+}
+
+export async function getPersonalToken(env: Env, userId: string, id: string): Promise<PersonalAccessToken | null> {
+  return kvGetJson<PersonalAccessToken>(env.AUTH_KV, keys.personalToken(userId, id));
+}
+
+/** Expiring tokens get a matching KV TTL so they clean themselves up. */
+export async function putPersonalToken(env: Env, token: PersonalAccessToken): Promise<void> {
+  const ttl = token.expiresAt ? Math.floor((Date.parse(token.expiresAt) - Date.now()) / 1000) : 0;
+  await env.AUTH_KV.put(
+    keys.personalToken(token.userId, token.id),
+    JSON.stringify(token),
+    token.expiresAt ? { expirationTtl: Math.max(60, ttl) } : undefined
+  );
+}
+
+export async function listPersonalTokens(env: Env, userId: string): Promise<PersonalAccessToken[]> {
+  const out: PersonalAccessToken[] = [];
+  let cursor: string | undefined = undefined;
+  do {
+    const res: KVNamespaceListResult<unknown, string> = await env.AUTH_KV.list({ prefix: keys.personalTokenPrefix(userId), cursor, limit: 1000 });
+    cursor = res.list_complete ? undefined : res.cursor;
+
+    for (const k of res.keys) {
+      const t = await kvGetJson<PersonalAccessToken>(env.AUTH_KV, k.name);
+      if (t) out.push(t);
+    }
+  } while (cursor);
+  return out;
+}
+
 export function defaultValue(resource: Resource): unknown {
   switch (resource) {
     case 'details':
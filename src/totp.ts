@@ -0,0 +1,100 @@
+// RFC 6238 TOTP (HMAC-SHA1, 6 digits, 30s steps) on WebCrypto.
+
+const B32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) {
+    value = (value << 8) | bytes[i];
+    bits += 8;
+    while (bits >= 5) {
+      out += B32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += B32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+export function base32Decode(s: string): Uint8Array {
+  const clean = s.toUpperCase().replace(/=+$/g, '').replace(/\s+/g, '');
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const ch of clean) {
+    const idx = B32_ALPHABET.indexOf(ch);
+    if (idx === -1) throw new Error('Invalid base32');
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(out);
+}
+
+export function randomTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(20))); // 160-bit, as RFC 4226 recommends
+}
+
+async function hotp(secret: Uint8Array, counter: number): Promise<string> {
+  const msg = new Uint8Array(8);
+  let c = counter;
+  for (let i = 7; i >= 0; i--) {
+    msg[i] = c & 0xff;
+    c = Math.floor(c / 256);
+  }
+
+  const key = await crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, msg));
+
+  // Dynamic truncation (RFC 4226 §5.3)
+  const off = mac[mac.length - 1] & 0x0f;
+  const bin =
+    ((mac[off] & 0x7f) << 24) |
+    ((mac[off + 1] & 0xff) << 16) |
+    ((mac[off + 2] & 0xff) << 8) |
+    (mac[off + 3] & 0xff);
+
+  return String(bin % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+export function totpStep(nowMs = Date.now()): number {
+  return Math.floor(nowMs / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * Check a code against the current step ± `window` steps (clock drift).
+ * Returns the matching step so callers can refuse replays, or null.
+ */
+export async function verifyTotp(secretB32: string, code: string, opts?: { window?: number; nowMs?: number }): Promise<number | null> {
+  const clean = code.replace(/\s+/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(clean)) return null;
+
+  const secret = base32Decode(secretB32);
+  const window = opts?.window ?? 1;
+  const step = totpStep(opts?.nowMs);
+
+  for (let d = -window; d <= window; d++) {
+    if ((await hotp(secret, step + d)) === clean) return step + d;
+  }
+  return null;
+}
+
+export function otpauthUri(secretB32: string, account: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret: secretB32,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -1,14 +1,29 @@
 export interface Env {
   AUTH_KV: KVNamespace;
+  ACCOUNT_DO?: DurableObjectNamespace; // per-account writer (see account_store.ts); local stand-in when unbound
   JWT_SECRET: string;
+  // Signing keyring (optional; see jwt.ts). JWT_SECRET is always kid "default".
+  JWT_KEYS?: string;        // JSON: [{ "kid": "...", "secret": "..." }]
+  JWT_ES256_KEYS?: string;  // JSON: [P-256 JWK with "kid"; "d" only where this worker signs]
+  JWT_PRIMARY_KID?: string; // kid used to sign new tokens (default "default")
   JWT_ISS: string;
   JWT_AUD: string;
   PASSWORD_PEPPER: string;
+  // Password hashing (optional; see password.ts)
+  PASSWORD_PEPPER_ID?: string;      // id recorded in new hashes (default "1")
+  PASSWORD_PEPPERS_OLD?: string;    // JSON: { "<id>": "<retired pepper>" }, still accepted on verify
+  PASSWORD_KDF_HASH?: string;       // "sha256" (default) | "sha512"
+  PASSWORD_KDF_ITERATIONS?: string; // default 100000 (the Workers maximum)
+
+  // Password policy for new passwords (optional; see password_policy.ts)
+  PASSWORD_MIN_LENGTH?: string; // default 10, never below 8
+  PASSWORD_MIN_SCORE?: string;  // 0-4, default 2
 
   GOOGLE_CLIENT_ID: string;
   GOOGLE_CLIENT_SECRET: string;
   GITHUB_CLIENT_ID: string;
   GH_CLIENT_SECRET: string;
+  OIDC_PROVIDERS?: string; // JSON array of generic OpenID Connect providers (see oidc.ts)
 
   EMAIL_PACK_HMAC_SECRET: string;
 
@@ -17,6 +32,36 @@ export interface Env {
   MAIL_PORT: string;          // e.g. "587" (STARTTLS) or "465" (TLS)
   MAIL_USERNAME: string;  //set by GH actions
   MAIL_PASSWORD: string;  //set by GH actions
+
+  // Rate limits, "<count>/<seconds>" (optional; see ratelimit.ts for defaults)
+  RATE_LIMIT_LOGIN_IP?: string;
+  RATE_LIMIT_LOGIN_EMAIL?: string;
+  RATE_LIMIT_SIGNUP_IP?: string;
+  RATE_LIMIT_SIGNUP_EMAIL?: string;
+  RATE_LIMIT_PW_RESET_IP?: string;
+  RATE_LIMIT_PW_RESET_EMAIL?: string;
+  RATE_LIMIT_MFA_IP?: string;
+  RATE_LIMIT_MFA_EMAIL?: string;
+  RATE_LIMIT_MAGIC_IP?: string;
+  RATE_LIMIT_MAGIC_EMAIL?: string;
+  RATE_LIMIT_EMAIL_CHANGE_IP?: string;
+  RATE_LIMIT_EMAIL_CHANGE_EMAIL?: string; // per account
+
+  // Progressive login lockout (optional)
+  LOGIN_LOCKOUT_THRESHOLD?: string;    // failures before the first lockout
+  LOGIN_LOCKOUT_BASE_SECONDS?: string; // first lockout; doubles with each further failure
+  LOGIN_LOCKOUT_MAX_SECONDS?: string;
+
+  // Post-sign-in redirects (optional; see return_to.ts)
+  RETURN_TO_ORIGINS?: string; // comma-separated extra SPA origins, e.g. a staging site
+  RETURN_TO_ROUTES?: string;  // comma-separated hash routes, default "/,/item/,/shortlist,/u/,/account"
+
+  // Admin API (optional; see admin.ts)
+  ADMIN_EMAILS?: string; // comma-separated; verified accounts with these emails can use /admin/*
+
+  // Passkeys (optional; default to the SPA origin)
+  WEBAUTHN_RP_ID?: string;  // e.g. "spirit.codexwilkes.com"
+  WEBAUTHN_ORIGIN?: string; // e.g. "https://spirit.codexwilkes.com"
 }
 
 export type EmailIndex = {
@@ -26,8 +71,147 @@ export type EmailIndex = {
 
   verified?: boolean;
   verifiedAt?: string;
+
+  tokenGen?: number; // bumped on password change/reset; tokens minted with an older gen are rejected
+  unlinkedProviders?: string[]; // providers removed by the user; no longer matched by email
+
+  deletion?: { requestedAt: string; purgeAfter: string }; // pending self-service deletion
+  suspended?: { at: string; by: string; reason: string }; // set by an admin; `by` is the admin's userId
+};
+
+export type MfaState = {
+  totp?: {
+    secret: string;      // base32
+    confirmed: boolean;  // false until the first code has been checked
+    createdAt: string;
+    confirmedAt?: string;
+    lastStep?: number;   // last accepted TOTP step, to refuse replays
+  };
+  recoveryHashes: string[]; // sha256 of unused one-time recovery codes
 };
 
+export type Passkey = {
+  id: string;            // sha256(credentialId), used in KV keys and the API
+  credentialId: string;  // base64url
+  publicKeyJwk: JsonWebKey;
+  alg: -7 | -257;        // COSE: ES256 | RS256
+  signCount: number;
+  transports?: string[];
+  name: string;
+  createdAt: string;
+  lastUsedAt?: string;
+};
+
+/** A third-party sign-in (Google, GitHub, ...) attached to an account. */
+export type Identity = {
+  provider: string;
+  subject: string; // the provider's stable user id ("sub")
+  email: string;   // as reported by the provider when linked; may differ from the account email
+  linkedAt: string;
+};
+
+/** `GET /u/:uuid/export?format=json`; also accepted by the import endpoint. Bump `version` on breaking changes. */
+export type AccountExportV1 = {
+  format: 'spirit-tracker-export';
+  version: 1;
+  exportedAt: string;
+  userId: string;
+  email: string;
+  account: Omit<EmailIndex, 'pwHash'> & { hasPassword: boolean };
+  details: Details;
+  favourites: string[];
+  sampled: string[];
+  score: Score;
+  notificationRules: EmailRuleV1[];
+};
+
+/** `GET /me`: everything the SPA needs about the signed-in account in one place. */
+export type AccountSummary = {
+  userId: string;
+  email: string;
+  createdAt: string | null;
+  verified: boolean;
+  verifiedAt: string | null;
+  signInMethods: {
+    password: boolean;
+    google: boolean;
+    github: boolean;
+    providers: string[]; // every linked provider, including OIDC ones
+    passkeys: number;
+  };
+  mfa: boolean;
+  pendingDeletion: { requestedAt: string; purgeAfter: string } | null;
+  notificationRules: { total: number; enabled: number };
+  resources: { favourites: number; sampled: number; score: number }; // entry counts
+};
+
+export type SecurityEventType =
+  | 'login'
+  | 'email_verified'
+  | 'password_reset'
+  | 'password_change'
+  | 'password_set'
+  | 'password_removed'
+  | 'identity_linked'
+  | 'identity_unlinked'
+  | 'token_created'
+  | 'token_revoked'
+  | 'passkey_added'
+  | 'passkey_removed';
+
+/** One entry in an account's security log (GET /me/security-events). */
+export type SecurityEvent = {
+  id: string;
+  at: string;
+  type: SecurityEventType;
+  method?: string; // "password", "magic_link", "passkey", "totp" or a provider id
+  outcome: 'success' | 'failure' | 'mfa_required';
+  reason?: string; // short machine-readable cause for failures, e.g. "bad_password"
+  ip: string;
+  userAgent: string;
+};
+
+/** A personal access token (POST /tokens). Only a hash of the secret is kept. */
+export type PersonalAccessToken = {
+  id: string;
+  userId: string;
+  name: string;
+  scopes: string[]; // TokenScope values
+  hash: string;     // sha256 of the secret
+  createdAt: string;
+  expiresAt?: string; // absent = never expires
+  lastUsedAt?: string;
+};
+
+/** One admin action, kept indefinitely under admin/audit/. */
+export type AdminAuditEntry = {
+  id: string;
+  at: string;
+  adminId: string;
+  adminEmail: string;
+  action: string;
+  targetUserId: string;
+  targetEmail: string;
+  detail?: string; // e.g. the suspension reason
+  ip: string;
+};
+
+export type PendingDeletion = {
+  userId: string;
+  email: string;
+  requestedAt: string;
+  purgeAfter: string;
+};
+
+export type Session = {
+  id: string;
+  userId: string;
+  refreshHash: string;      // sha256 of the current refresh secret
+  prevRefreshHash?: string; // previous secret, kept to detect replay of a rotated token
+  userAgent: string;
+  createdAt: string;
+  lastUsedAt: string;
+};
 
 export type Score = Record<string, number>;
 
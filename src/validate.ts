@@ -1,6 +1,7 @@
 // src/validate.ts
 
 import type { Details, Score, EmailNotificationsV1, EmailRuleV1, EmailEventType, EmailEventPackV1, EmailPackEventV1, EmailPackSkuV1 } from "./types";
+import { PERSONAL_TOKEN_MAX_DAYS, TOKEN_SCOPES, type TokenScope } from "./constants";
 
 /* -------------------------------------------------------------------------- */
 /* Constants                                                                  */
@@ -47,7 +48,7 @@ function sanitizeUserText(s: string, maxLen: number): string {
   return out.slice(0, maxLen);
 }
 
-function assertSku(value: unknown, name: string): string {
+export function assertSku(value: unknown, name: string): string {
   const v = String(value ?? "").trim();
   if (!v || v.length > MAX_KEY || !SKU_RE.test(v)) {
     throw new Error(`${name} must be : + alphanumerics`);
@@ -65,7 +66,7 @@ export function validateEmailPassword(body: any): { email: string; password: str
   const password = typeof body?.password === "string" ? body.password : "";
 
   if (!email || !email.includes("@")) throw new Error("Invalid email");
-  if (password.length < 8) throw new Error("Invalid password");
+  if (password.length < 8) throw new Error("Password must be at least 8 characters");
 
   return { email, password };
 }
@@ -81,11 +82,39 @@ export function validatePasswordResetConfirm(body: any): { token: string; passwo
   const password = typeof body?.password === "string" ? body.password : "";
 
   if (!token || token.length < 20) throw new Error("Invalid token");
-  if (password.length < 8) throw new Error("Invalid password");
+  if (!password) throw new Error("Invalid password"); // strength is checked by password_policy
 
   return { token, password };
 }
 
+export function validatePasswordChange(body: any): { currentPassword: string; newPassword: string } {
+  const currentPassword = typeof body?.currentPassword === "string" ? body.currentPassword : "";
+  const newPassword = typeof body?.newPassword === "string" ? body.newPassword : "";
+
+  if (!currentPassword) throw new Error("Invalid password");
+  if (!newPassword) throw new Error("Invalid password"); // strength is checked by password_policy
+
+  return { currentPassword, newPassword };
+}
+
+export function validatePersonalTokenCreate(body: any): { name: string; scopes: TokenScope[]; expiresInDays: number | null } {
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  if (!name || name.length > MAX_TEXT) throw new Error(`Invalid name (1-${MAX_TEXT} characters)`);
+
+  if (!Array.isArray(body?.scopes) || body.scopes.length === 0) throw new Error("Invalid scopes");
+  for (const s of body.scopes) {
+    if (!TOKEN_SCOPES.includes(s)) throw new Error(`Invalid scope: ${String(s)}`);
+  }
+  const scopes = Array.from(new Set(body.scopes as TokenScope[])).sort();
+
+  const days = body?.expiresInDays ?? null;
+  if (days !== null && (!Number.isInteger(days) || days < 1 || days > PERSONAL_TOKEN_MAX_DAYS)) {
+    throw new Error(`Invalid expiresInDays (1-${PERSONAL_TOKEN_MAX_DAYS})`);
+  }
+
+  return { name, scopes, expiresInDays: days };
+}
+
 
 // ////////////////
 
@@ -0,0 +1,392 @@
+import { ACCOUNT_SUSPENDED_MSG, ALLOWED_ORIGIN } from './constants';
+import type { Env, Passkey } from './types';
+import { errorJson, json } from './http';
+import { requireAuth } from './auth';
+import { b64UrlToBytes, bytesToB64Url } from './base64url';
+import { decodeCbor, decodeCborPrefix, type CborValue } from './cbor';
+import { getAccountIndex, getPasskey, keys, listPasskeys, putPasskey } from './storage';
+import { issueToken } from './sessions';
+import { recordSecurityEvent } from './security_events';
+import { countSignInMethods, requireRecentSignIn } from './identities';
+import { enforceRateLimit } from './ratelimit';
+import { readJson } from './validate';
+
+// Passkeys (WebAuthn Level 2). Attestation is not verified ("none"): we only need the
+// credential's public key, and we don't restrict which authenticators may be used.
+
+const RP_NAME = 'Spirit Tracker';
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+const MAX_PASSKEYS = 20;
+const MAX_NAME = 64;
+
+const COSE_ALG_ES256 = -7;
+const COSE_ALG_RS256 = -257;
+
+const FLAG_UP = 0x01; // user present
+const FLAG_UV = 0x04; // user verified (PIN or biometric)
+const FLAG_AT = 0x40; // attested credential data included
+
+type ChallengeState = { type: 'register' | 'login'; userId?: string };
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function rpId(env: Env): string {
+  return (env.WEBAUTHN_RP_ID || '').trim() || new URL(ALLOWED_ORIGIN).hostname;
+}
+
+function expectedOrigin(env: Env): string {
+  return (env.WEBAUTHN_ORIGIN || '').trim() || ALLOWED_ORIGIN;
+}
+
+async function sha256(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+/** Credential IDs can be long; key KV entries by their hash instead. */
+async function passkeyIdFor(credentialId: string): Promise<string> {
+  return bytesToB64Url(await sha256(b64UrlToBytes(credentialId)));
+}
+
+// ---- Challenges ----
+
+function challengeKey(challenge: string): string {
+  return `auth/webauthn/challenge/${challenge}`;
+}
+
+async function newChallenge(env: Env, state: ChallengeState): Promise<string> {
+  const challenge = bytesToB64Url(crypto.getRandomValues(new Uint8Array(32)));
+  await env.AUTH_KV.put(challengeKey(challenge), JSON.stringify(state), { expirationTtl: CHALLENGE_TTL_SECONDS });
+  return challenge;
+}
+
+async function takeChallenge(env: Env, challenge: string): Promise<ChallengeState | null> {
+  if (!/^[A-Za-z0-9_-]{16,128}$/.test(challenge)) return null;
+  const k = challengeKey(challenge);
+  const v = (await env.AUTH_KV.get(k, { type: 'json' })) as ChallengeState | null;
+  if (!v) return null;
+  await env.AUTH_KV.delete(k);
+  return v;
+}
+
+// ---- Parsing ----
+
+type ClientData = { type: string; challenge: string; origin: string };
+
+function parseClientData(b64url: string, expectedType: 'webauthn.create' | 'webauthn.get', env: Env): { raw: Uint8Array; data: ClientData } {
+  const raw = b64UrlToBytes(b64url);
+  let data: any;
+  try {
+    data = JSON.parse(new TextDecoder().decode(raw));
+  } catch {
+    throw new Error('Invalid clientDataJSON');
+  }
+  if (data?.type !== expectedType) throw new Error('Invalid clientDataJSON type');
+  if (data?.origin !== expectedOrigin(env)) throw new Error('Invalid clientDataJSON origin');
+  if (typeof data?.challenge !== 'string') throw new Error('Invalid clientDataJSON challenge');
+  return { raw, data };
+}
+
+type AuthData = {
+  rpIdHash: Uint8Array;
+  flags: number;
+  signCount: number;
+  credentialId?: Uint8Array;
+  coseKey?: Map<CborValue, CborValue>;
+};
+
+function parseAuthData(bytes: Uint8Array): AuthData {
+  if (bytes.length < 37) throw new Error('Invalid authenticatorData');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const out: AuthData = {
+    rpIdHash: bytes.slice(0, 32),
+    flags: bytes[32],
+    signCount: view.getUint32(33),
+  };
+
+  if (out.flags & FLAG_AT) {
+    // aaguid (16) | credIdLen (2) | credId | COSE key
+    let pos = 37 + 16;
+    if (bytes.length < pos + 2) throw new Error('Invalid authenticatorData');
+    const len = view.getUint16(pos);
+    pos += 2;
+    if (bytes.length < pos + len) throw new Error('Invalid authenticatorData');
+    out.credentialId = bytes.slice(pos, pos + len);
+    pos += len;
+
+    const { value } = decodeCborPrefix(bytes, pos);
+    if (!(value instanceof Map)) throw new Error('Invalid credential public key');
+    out.coseKey = value;
+  }
+
+  return out;
+}
+
+async function checkRp(env: Env, authData: AuthData): Promise<void> {
+  const expected = await sha256(new TextEncoder().encode(rpId(env)));
+  if (!bytesEqual(authData.rpIdHash, expected)) throw new Error('Invalid rpId');
+  if (!(authData.flags & FLAG_UP)) throw new Error('Invalid authenticatorData: user presence required');
+  // Passkey sign-in skips the password and TOTP, so the authenticator itself must check the user.
+  if (!(authData.flags & FLAG_UV)) throw new Error('Invalid authenticatorData: user verification required');
+}
+
+function coseToJwk(cose: Map<CborValue, CborValue>): { jwk: JsonWebKey; alg: Passkey['alg'] } {
+  const kty = cose.get(1);
+  const alg = cose.get(3);
+
+  if (kty === 2 && alg === COSE_ALG_ES256) {
+    const crv = cose.get(-1);
+    const x = cose.get(-2);
+    const y = cose.get(-3);
+    if (crv !== 1 || !(x instanceof Uint8Array) || !(y instanceof Uint8Array)) throw new Error('Invalid credential: unsupported EC key');
+    return { jwk: { kty: 'EC', crv: 'P-256', x: bytesToB64Url(x), y: bytesToB64Url(y) }, alg: COSE_ALG_ES256 };
+  }
+
+  if (kty === 3 && alg === COSE_ALG_RS256) {
+    const n = cose.get(-1);
+    const e = cose.get(-2);
+    if (!(n instanceof Uint8Array) || !(e instanceof Uint8Array)) throw new Error('Invalid credential: unsupported RSA key');
+    return { jwk: { kty: 'RSA', n: bytesToB64Url(n), e: bytesToB64Url(e) }, alg: COSE_ALG_RS256 };
+  }
+
+  throw new Error('Invalid credential: algorithm must be ES256 or RS256');
+}
+
+async function importPublicKey(jwk: JsonWebKey, alg: Passkey['alg']): Promise<CryptoKey> {
+  return alg === COSE_ALG_ES256
+    ? crypto.subtle.importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify'])
+    : crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+}
+
+/** WebAuthn ES256 signatures are ASN.1 DER; WebCrypto wants raw r||s. */
+function derToRawEcdsa(der: Uint8Array): Uint8Array {
+  let pos = 0;
+  if (der[pos++] !== 0x30) throw new Error('Invalid signature');
+  if (der[pos] & 0x80) pos += 1 + (der[pos] & 0x7f);
+  else pos += 1;
+
+  const out = new Uint8Array(64);
+  for (let i = 0; i < 2; i++) {
+    if (der[pos++] !== 0x02) throw new Error('Invalid signature');
+    const len = der[pos++];
+    let int = der.subarray(pos, pos + len);
+    pos += len;
+    while (int.length > 32 && int[0] === 0) int = int.subarray(1);
+    if (int.length > 32) throw new Error('Invalid signature');
+    out.set(int, i * 32 + (32 - int.length));
+  }
+  return out;
+}
+
+async function verifyAssertionSignature(passkey: Passkey, authData: Uint8Array, clientDataRaw: Uint8Array, signature: Uint8Array): Promise<boolean> {
+  const clientHash = await sha256(clientDataRaw);
+  const signed = new Uint8Array(authData.length + clientHash.length);
+  signed.set(authData, 0);
+  signed.set(clientHash, authData.length);
+
+  const key = await importPublicKey(passkey.publicKeyJwk, passkey.alg);
+  if (passkey.alg === COSE_ALG_ES256) {
+    return crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, derToRawEcdsa(signature), signed);
+  }
+  return crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, signed);
+}
+
+function b64Field(v: unknown, name: string): string {
+  const s = typeof v === 'string' ? v.trim() : '';
+  if (!s || !/^[A-Za-z0-9_-]+={0,2}$/.test(s)) throw new Error(`Invalid ${name}`);
+  return s.replace(/=+$/g, '');
+}
+
+// ---- Registration ----
+
+export async function handlePasskeyRegisterOptions(req: Request, env: Env): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  if (!auth.account) return errorJson(req, 404, 'Account not found');
+  const stale = requireRecentSignIn(req, auth, 'add a passkey');
+  if (stale) return stale;
+
+  const existing = await listPasskeys(env, auth.sub);
+  if (existing.length >= MAX_PASSKEYS) return errorJson(req, 400, `At most ${MAX_PASSKEYS} passkeys per account`);
+
+  const challenge = await newChallenge(env, { type: 'register', userId: auth.sub });
+
+  return json(req, 200, {
+    challenge,
+    rp: { id: rpId(env), name: RP_NAME },
+    user: {
+      id: bytesToB64Url(new TextEncoder().encode(auth.sub)),
+      name: auth.account.email,
+      displayName: auth.account.email,
+    },
+    pubKeyCredParams: [
+      { type: 'public-key', alg: COSE_ALG_ES256 },
+      { type: 'public-key', alg: COSE_ALG_RS256 },
+    ],
+    timeout: CHALLENGE_TTL_SECONDS * 1000,
+    attestation: 'none',
+    authenticatorSelection: { residentKey: 'required', requireResidentKey: true, userVerification: 'required' },
+    excludeCredentials: existing.map((p) => ({ type: 'public-key', id: p.credentialId })),
+  });
+}
+
+export async function handlePasskeyRegisterVerify(req: Request, env: Env): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  const stale = requireRecentSignIn(req, auth, 'add a passkey');
+  if (stale) return stale;
+  const body = await readJson<any>(req);
+
+  const clientDataJSON = b64Field(body?.response?.clientDataJSON, 'clientDataJSON');
+  const attestationObject = b64Field(body?.response?.attestationObject, 'attestationObject');
+
+  const { data: clientData } = parseClientData(clientDataJSON, 'webauthn.create', env);
+  const ch = await takeChallenge(env, clientData.challenge);
+  if (!ch || ch.type !== 'register' || ch.userId !== auth.sub) return errorJson(req, 400, 'Invalid or expired challenge');
+
+  const att = decodeCbor(b64UrlToBytes(attestationObject));
+  const authDataBytes = att instanceof Map ? att.get('authData') : undefined;
+  if (!(authDataBytes instanceof Uint8Array)) throw new Error('Invalid attestationObject');
+
+  const authData = parseAuthData(authDataBytes);
+  await checkRp(env, authData);
+  if (!authData.credentialId || !authData.coseKey) throw new Error('Invalid attestationObject');
+
+  const { jwk, alg } = coseToJwk(authData.coseKey);
+  await importPublicKey(jwk, alg); // reject keys WebCrypto can't use
+
+  const credentialId = bytesToB64Url(authData.credentialId);
+  const id = await passkeyIdFor(credentialId);
+
+  const owner = await env.AUTH_KV.get(keys.passkeyOwner(id));
+  if (owner) return errorJson(req, 409, 'Passkey already registered');
+
+  const transports = Array.isArray(body?.response?.transports)
+    ? body.response.transports.filter((t: unknown) => typeof t === 'string').slice(0, 8)
+    : undefined;
+  const name = typeof body?.name === 'string' && body.name.trim() ? body.name.trim().slice(0, MAX_NAME) : 'Passkey';
+
+  const passkey: Passkey = {
+    id,
+    credentialId,
+    publicKeyJwk: jwk,
+    alg,
+    signCount: authData.signCount,
+    ...(transports ? { transports } : {}),
+    name,
+    createdAt: nowIso(),
+  };
+  await putPasskey(env, auth.sub, passkey);
+  await env.AUTH_KV.put(keys.passkeyOwner(id), auth.sub);
+  await recordSecurityEvent(env, req, auth.sub, { type: 'passkey_added', method: name }, auth.account?.email);
+
+  return json(req, 200, { ok: true, id, name });
+}
+
+// ---- Authentication ----
+
+export async function handlePasskeyLoginOptions(req: Request, env: Env): Promise<Response> {
+  const limited = await enforceRateLimit(req, env, 'login');
+  if (limited) return limited;
+
+  // No email lookup: listing an address's credentials would reveal whether it has an account.
+  // The browser offers the user's discoverable passkeys instead.
+  const challenge = await newChallenge(env, { type: 'login' });
+  return json(req, 200, {
+    challenge,
+    rpId: rpId(env),
+    timeout: CHALLENGE_TTL_SECONDS * 1000,
+    userVerification: 'required',
+    allowCredentials: [],
+  });
+}
+
+export async function handlePasskeyLoginVerify(req: Request, env: Env): Promise<Response> {
+  const limited = await enforceRateLimit(req, env, 'login');
+  if (limited) return limited;
+
+  const body = await readJson<any>(req);
+  const credentialId = b64Field(body?.rawId ?? body?.id, 'credential id');
+  const clientDataJSON = b64Field(body?.response?.clientDataJSON, 'clientDataJSON');
+  const authenticatorData = b64Field(body?.response?.authenticatorData, 'authenticatorData');
+  const signature = b64Field(body?.response?.signature, 'signature');
+
+  const { raw: clientDataRaw, data: clientData } = parseClientData(clientDataJSON, 'webauthn.get', env);
+  const ch = await takeChallenge(env, clientData.challenge);
+  if (!ch || ch.type !== 'login') return errorJson(req, 400, 'Invalid or expired challenge');
+
+  const id = await passkeyIdFor(credentialId);
+  const userId = await env.AUTH_KV.get(keys.passkeyOwner(id));
+  const passkey = userId ? await getPasskey(env, userId, id) : null;
+  if (!userId || !passkey) return errorJson(req, 401, 'Unknown passkey');
+
+  const authDataBytes = b64UrlToBytes(authenticatorData);
+  const authData = parseAuthData(authDataBytes);
+  await checkRp(env, authData);
+
+  const ok = await verifyAssertionSignature(passkey, authDataBytes, clientDataRaw, b64UrlToBytes(signature));
+  if (!ok) {
+    await recordSecurityEvent(env, req, userId, { type: 'login', method: 'passkey', outcome: 'failure', reason: 'bad_signature' });
+    return errorJson(req, 401, 'Invalid passkey signature');
+  }
+
+  // A counter that fails to advance suggests a cloned authenticator (0/0 = counter not supported).
+  if ((authData.signCount !== 0 || passkey.signCount !== 0) && authData.signCount <= passkey.signCount) {
+    await recordSecurityEvent(env, req, userId, { type: 'login', method: 'passkey', outcome: 'failure', reason: 'counter_regressed' });
+    return errorJson(req, 401, 'Passkey counter did not advance');
+  }
+
+  const account = await getAccountIndex(env, userId);
+  if (!account) return errorJson(req, 401, 'Unknown passkey');
+  if (account.idx.suspended) return errorJson(req, 403, ACCOUNT_SUSPENDED_MSG);
+  if (account.idx.deletion) {
+    return errorJson(req, 403, 'This account is scheduled for deletion. Use the link in your email to restore it.');
+  }
+
+  await putPasskey(env, userId, { ...passkey, signCount: authData.signCount, lastUsedAt: nowIso() });
+
+  const { token, refreshToken } = await issueToken(env, req, account.idx);
+  await recordSecurityEvent(env, req, userId, { type: 'login', method: 'passkey' }, account.email);
+  return json(req, 200, { token, refreshToken, userId });
+}
+
+// ---- Management ----
+
+export async function handlePasskeyList(req: Request, env: Env): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  const passkeys = await listPasskeys(env, auth.sub);
+  passkeys.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  return json(
+    req,
+    200,
+    passkeys.map((p) => ({ id: p.id, name: p.name, createdAt: p.createdAt, lastUsedAt: p.lastUsedAt ?? null }))
+  );
+}
+
+export async function handlePasskeyDelete(req: Request, env: Env, id: string): Promise<Response> {
+  const auth = await requireAuth(req, env);
+  const passkey = await getPasskey(env, auth.sub, id);
+  if (!passkey) return errorJson(req, 404, 'Not found');
+  const stale = requireRecentSignIn(req, auth, 'remove a passkey');
+  if (stale) return stale;
+
+  if (auth.account && (await countSignInMethods(env, auth.sub, auth.account.idx)) <= 1) {
+    return errorJson(req, 409, 'This is your only way to sign in. Add another sign-in method before removing it.');
+  }
+
+  await env.AUTH_KV.delete(keys.passkey(auth.sub, id));
+  await env.AUTH_KV.delete(keys.passkeyOwner(id));
+  await recordSecurityEvent(env, req, auth.sub, { type: 'passkey_removed', method: passkey.name }, auth.account?.email);
+  return json(req, 200, { ok: true });
+}
+
+/** Drop the credential → user lookups before an account purge removes the passkeys themselves. */
+export async function deletePasskeyOwners(env: Env, userId: string): Promise<void> {
+  for (const p of await listPasskeys(env, userId)) await env.AUTH_KV.delete(keys.passkeyOwner(p.id));
+}